@@ -7,3 +7,6 @@
 export { default as Creator } from './entityCreator';
 export * from './user';
 export * from './level';
+export * from './song';
+export * from './pack';
+export * from './savefile';
@@ -5,153 +5,48 @@
 
 import {
   parse,
-  parseObject,
+  parseLevelObject,
+  parseLevelSettings,
   generateDate,
   decrypt,
   gdDecodeBase64,
   decompress,
-  levelKey,
+  compress,
+  stringify,
   GDDate,
   ParsedData,
   GDRequestParams,
-  ParsedLevelData
+  ParsedLevelData,
+  LevelObject,
+  HSV,
+  ObjectPropertyType,
+  ObjectProperty,
+  ObjectPropertyName,
+  OBJECT_PROPERTIES,
+  LevelSettings,
+  ColorChannel,
+  GameMode,
+  Speed,
+  PageIterator,
+  PageInfo,
+  PageFetcher,
+  RawPage,
+  Page,
+  parsePageInfo,
+  fetchPage
 } from '../util';
 import Creator from './entityCreator';
-import { User, LevelComment, StatlessSearchedUser, LoggedInUser } from './user';
-
-// TODO: Try to add things to SongAuthor (like get all songs by this author)
-
-/**
- * Information about a song author
- */
-class SongAuthor {
-  /** @internal */
-  constructor(
-    /** The author's name */
-    public name: string,
-    /** The author's Newgrounds ID */
-    public id: number
-  ) {}
-}
-
-/** @internal */
-const DEFAULT_SONGS: [string, string][] = [
-  ['Stay Inside Me', 'OcularNebula'],
-  ['Stereo Madness', 'ForeverBound'],
-  ['Back on Track', 'DJVI'],
-  ['Polargeist', 'Step'],
-  ['Dry Out', 'DJVI'],
-  ['Base After Base', 'DJVI'],
-  ["Can't Let Go", 'DJVI'],
-  ['Jumper', 'Waterflame'],
-  ['Time Machine', 'Waterflame'],
-  ['Cycles', 'DJVI'],
-  ['xStep', 'DJVI'],
-  ['Clutterfunk', 'Waterflame'],
-  ['Theory of Everything', 'DJ-Nate'],
-  ['Electroman Adventures', 'Waterflame'],
-  ['Clubstep', 'DJ-Nate'],
-  ['Electrodynamix', 'DJ-Nate'],
-  ['Hexagon Force', 'Waterflame'],
-  ['Blast Processing', 'Waterflame'],
-  ['Theory of Everything 2', 'DJ-Nate'],
-  ['Geometrical Dominator', 'Waterflame'],
-  ['Deadlocked', 'F-777'],
-  ['Fingerdash', 'MDK'],
-  ['The Seven Seas', 'F-777'],
-  ['Viking Arena', 'F-777'],
-  ['Airborne Robots', 'F-777'],
-  ['The Challenge', 'RobTop'],
-  ['Payload', 'Dex Arson'],
-  ['Beast Mode', 'Dex Arson'],
-  ['Machina', 'Dex Arson'],
-  ['Years', 'Dex Arson'],
-  ['Frontlines', 'Dex Arson'],
-  ['Space Pirates', 'Waterflame'],
-  ['Striker', 'Waterflame'],
-  ['Round 1', 'Dex Arson'],
-  ['Embers', 'Dex Arson'],
-  ['Monster Dance Off', 'F-777'],
-  ['Press Start', 'MDK'],
-  ['Nock Em', 'Bossfight'],
-  ['Power Trip', 'Boom Kitty']
-];
-
-/**
- * Base definition for a song
- */
-interface BaseSong {
-  /** The name of the song */
-  name: string;
-  /** Whether or not the song is a custom song */
-  isCustom: boolean;
-}
-
-/**
- * Information about a default song
- */
-class DefaultSong implements BaseSong {
-  name: string;
-  /** The default song's Geometry Dash ID */
-  id: number;
-  /** The song author's name */
-  authorName: string;
-  isCustom: false = false;
-
-  /**
-   * Creates info about a song
-   * @param _creator The associated level's creator
-   * @param id The numeric ID of the song
-   * @internal
-   */
-  constructor(private _creator: LevelCreator, id: number) {
-    id += 1;
-    const song = DEFAULT_SONGS[id];
-    this.id = id;
-    this.name = song[0];
-    this.authorName = song[1];
-  }
-}
-
-/**
- * Information about a custom song
- */
-class CustomSong implements BaseSong {
-  name: string;
-  /** The song's Newgrounds ID */
-  id: number;
-  /** The song's author */
-  author: SongAuthor;
-  /** The size of the song */
-  size: {
-    /** The raw number of bytes in the song. Note this may not be completely accurate. */
-    raw: number;
-    /** The size of the song in a human-readable format */
-    pretty: string;
-  };
-  /** The URL containing the raw audio file */
-  url: string;
-  isCustom: true = true;
-
-  /**
-   * Creates info about a song
-   * @param _creator The associated level's creator
-   * @param rawData The raw data to parse
-   * @internal
-   */
-  constructor(private _creator: LevelCreator, d: ParsedData) {
-    this.id = +d[1];
-    this.name = d[2];
-    this.author = new SongAuthor(d[4], +d[3]);
-    this.size = {
-      raw: Math.floor(+d[5] * 1048576),
-      pretty: d[5] + ' MB'
-    };
-    this.url = decodeURIComponent(d[10]);
-  }
-}
-
-type Song = DefaultSong | CustomSong;
+import {
+  User,
+  LevelComment,
+  StatlessSearchedUser,
+  LoggedInUser,
+  LevelLeaderboardConfig,
+  LevelScore,
+  LevelVisibility,
+  LevelUploadConfig
+} from './user';
+import { DefaultSong, CustomSong, Song, getSongData } from './song';
 
 type Difficulty = 'N/A' | 'Auto' | 'Easy' | 'Normal' | 'Hard' | 'Harder' | 'Insane';
 type DemonDifficulty =
@@ -188,11 +83,12 @@ const DEMON_DIFFICULTY_MAP: { [k in RawDemonDifficulty]: DemonDifficulty } = {
 type DifficultyLevel = {
   /**
    * The difficulty level as a number. -1 = N/A, 0 = Auto, 1 = Easy, 2 = Normal, 3 = Hard, 4 = Harder, 5 = Insane.
-   * If demon (i.e. the number of stars is 10), 1 = Easy, 2 = Medium, 3 = Hard, 4 = Insane, 5 = Extreme
+   * If demon (i.e. the number of stars is 10), 1 = Easy, 2 = Medium, 3 = Hard, 4 = Insane, 5 = Extreme,
+   * or 0 if the demon difficulty is unknown
    */
   raw: RawDifficulty;
-  /** The difficulty level as a pretty string */
-  pretty: Difficulty | DemonDifficulty;
+  /** The difficulty level as a pretty string. "Demon" if the demon difficulty is unknown (e.g. for map packs) */
+  pretty: Difficulty | DemonDifficulty | 'Demon';
 };
 
 /**
@@ -346,6 +242,10 @@ class SearchedLevel {
   diamonds: number;
   /** The ID of the original level the level was copied from. Only exists if the level was copied */
   original?: number;
+  /** Whether the level supports two-player mode */
+  twoPlayer: boolean;
+  /** Whether the level has a low detail mode */
+  ldm: boolean;
   /** @internal */
   protected _userData: string[];
   /** @internal */
@@ -372,7 +272,7 @@ class SearchedLevel {
     this.gameVersion = +d[13];
     const songID = d[35];
     this.song =
-      songID === '0'
+      !songID || songID === '0'
         ? new DefaultSong(_creator, +d[12])
         : new CustomSong(_creator, (this._songData = songData.find(song => songID === song[1])));
     this.description = gdDecodeBase64(d[3]);
@@ -401,6 +301,8 @@ class SearchedLevel {
     this.diamonds = this.difficulty.stars < 2 ? 0 : this.difficulty.stars + 2;
     const orig = +d[30];
     if (orig) this.original = orig;
+    this.twoPlayer = d[31] === '1';
+    this.ldm = d[40] === '1';
   }
 
   /**
@@ -445,44 +347,93 @@ class SearchedLevel {
    * Gets the comments on this level
    * @param byLikes Whether to sort by likes or not
    * @param num The number of comments to get
-   * @returns The most recent or most liked comments made on this level
+   * @param page The page of comments to get, where each page has num comments. Defaults to 0.
+   * @returns A page of the most recent or most liked comments made on this level
    * @async
    */
-  async getComments(byLikes: boolean, num: number): Promise<LevelComment<StatlessSearchedUser>[]>;
+  async getComments(
+    byLikes: boolean,
+    num: number,
+    page?: number
+  ): Promise<Page<LevelComment<StatlessSearchedUser>>>;
   async getComments(
     byLikes = false,
-    num?: number
-  ): Promise<LevelComment<StatlessSearchedUser> | LevelComment<StatlessSearchedUser>[]> {
-    let singleReturn = false;
-    if (!num) {
-      num = 1;
-      singleReturn = true;
-    }
-    const params = new GDRequestParams({
-      count: num,
-      levelID: this.id,
-      mode: +byLikes,
-      page: 0,
-      total: 0
-    });
-    params.authorize('db');
-    const data = await this._creator._client.req('/getGJComments21.php', {
-      method: 'POST',
-      body: params
-    });
-    if (data === '-1') return singleReturn ? null : [];
-    const comments = data
-      .slice(0, data.indexOf('#'))
-      .split('|')
-      .map(str => {
-        const [comment, user] = str.split(':');
-        return new LevelComment(
-          this._creator._client.users,
-          new StatlessSearchedUser(this._creator._client.users, user),
-          '1~' + this.id + '~' + comment
-        );
+    num?: number,
+    page = 0
+  ): Promise<LevelComment<StatlessSearchedUser> | Page<LevelComment<StatlessSearchedUser>>> {
+    const comments = await fetchPage(
+      this.commentPages(byLikes, num || 1),
+      page,
+      num || 1,
+      num || 1
+    );
+    return num ? comments : comments[0] || null;
+  }
+
+  /**
+   * Iterates over the comments on this level, fetching each page of comments only when it is needed
+   * @param byLikes Whether to sort by likes or not
+   * @param startPage The page of comments to start from. Defaults to 0.
+   * @returns An iterator over the most recent or most liked comments made on this level
+   */
+  getCommentsIter(
+    byLikes = false,
+    startPage = 0
+  ): PageIterator<LevelComment<StatlessSearchedUser>> {
+    return new PageIterator(this.commentPages(byLikes, 10), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of the comments on this level
+   * @param byLikes Whether to sort by likes or not
+   * @param count The number of comments on each page
+   * @returns The function to get each page with
+   * @internal
+   */
+  private commentPages(
+    byLikes: boolean,
+    count: number
+  ): PageFetcher<LevelComment<StatlessSearchedUser>> {
+    return async (page: number): Promise<RawPage<LevelComment<StatlessSearchedUser>>> => {
+      const params = new GDRequestParams({
+        count,
+        levelID: this.id,
+        mode: +byLikes,
+        page,
+        total: 0
+      });
+      params.authorize('db');
+      const data = await this._creator._client.req('/getGJComments21.php', {
+        method: 'POST',
+        body: params
       });
-    return singleReturn ? comments[0] : comments;
+      if (data === '-1') return null;
+      return {
+        items: data
+          .slice(0, data.indexOf('#'))
+          .split('|')
+          .map(str => {
+            const [comment, user] = str.split(':');
+            return new LevelComment(
+              this._creator._client.users,
+              new StatlessSearchedUser(this._creator._client.users, user),
+              '1~' + this.id + '~' + comment
+            );
+          }),
+        info: parsePageInfo(data)
+      };
+    };
+  }
+
+  /**
+   * Gets the leaderboard for this level
+   * @param user The logged in user to get the leaderboard as
+   * @param config The configuration for the leaderboard
+   * @returns The leaderboard, with position being index + 1
+   * @async
+   */
+  async getLeaderboard(user: LoggedInUser, config?: LevelLeaderboardConfig): Promise<LevelScore[]> {
+    return await user.getLevelLeaderboard(this, config);
   }
 }
 
@@ -496,13 +447,30 @@ type LevelData = {
 type FullLevelData = LevelData & {
   /** The parsed level data */
   parsed: {
-    /** The metadata of the level */
-    meta: ParsedData;
-    /** An array of objects in the level with numeric key-value pair representations. Each key has a different meaning. For example, 1 is ID, 2 is X position, and 3 is Y position. Friendlier parsing is a WIP. */
-    objects: ParsedLevelData[];
+    /** The settings of the level, such as the starting game mode and color channels */
+    meta: LevelSettings;
+    /** An array of objects in the level. Unknown properties can still be accessed by their numeric keys with {@link LevelObject.get}. */
+    objects: LevelObject[];
   };
 };
 
+/**
+ * Encodes level data into the raw string format used by the Geometry Dash servers
+ * @param data The decoded level string, or the parsed level data
+ * @returns The raw level string after serializing and compressing, usable as {@link Level.data}
+ * @async
+ */
+const encodeLevelData = async (
+  data: string | { meta: LevelSettings | ParsedData; objects: LevelObject[] }
+): Promise<string> => {
+  if (typeof data !== 'string') {
+    const { meta, objects } = data;
+    const header = meta instanceof LevelSettings ? meta.toString() : stringify(meta, ',');
+    data = [header, ...objects.map(obj => obj.toString())].join(';') + ';';
+  }
+  return await compress(data);
+};
+
 /**
  * Details about a level, including its full representation
  */
@@ -539,7 +507,9 @@ class Level extends SearchedLevel {
     } else {
       this.copy = { copyable: true };
       if (d[27] !== '1')
-        this.copy.password = (+decrypt(d[27], levelKey).slice(1)).toString().padStart(4, '0'); // Working on GDPS support
+        this.copy.password = (+decrypt(d[27], _creator._client.server.keys.level).slice(1))
+          .toString()
+          .padStart(4, '0');
     }
     this.data = d[4];
   }
@@ -565,8 +535,8 @@ class Level extends SearchedLevel {
       return {
         raw,
         parsed: {
-          meta: parse(rawHeader, ','),
-          objects: rawParsedData.map(parseObject)
+          meta: parseLevelSettings(rawHeader),
+          objects: rawParsedData.filter(str => str).map(parseLevelObject)
         }
       } as FullLevelData;
     }
@@ -631,6 +601,80 @@ class LoggedInSearchedLevel extends SearchedLevel {
     }
     return success;
   }
+
+  /**
+   * Deletes the level from the servers
+   * @returns Whether the level deletion was successful
+   * @async
+   */
+  async delete(): Promise<boolean> {
+    return await this.creator.deleteLevel(this);
+  }
+
+  /**
+   * Re-uploads the level with its original data and some settings changed
+   * @param config The settings to change. The visibility must always be given, since the servers do not report it
+   * @returns Whether the re-upload succeeded
+   * @async
+   * @internal
+   */
+  private async reupload(
+    config: Partial<LevelUploadConfig> & { visibility: LevelVisibility }
+  ): Promise<boolean> {
+    const level = await this.resolve();
+    const changes: { [key: string]: unknown } = {};
+    // Settings that were not passed keep their current values
+    for (const [key, value] of Object.entries(config))
+      if (value !== undefined) changes[key] = value;
+    const success = !!(await this.creator.uploadLevel(
+      {
+        name: level.name,
+        description: level.description,
+        levelString: level.data,
+        song: level.song,
+        length: level.stats.length.raw,
+        coins: level.coins.count,
+        requestedStars: level.difficulty.requestedStars,
+        copyable: level.copy.copyable,
+        password: level.copy.password,
+        ldm: level.ldm,
+        twoPlayer: level.twoPlayer,
+        original: level.original,
+        ...changes
+      },
+      this
+    ));
+    if (success) this.version++;
+    return success;
+  }
+
+  /**
+   * Changes who can see the level by re-uploading it
+   * @param visibility Who should be able to see the level
+   * @returns Whether changing the visibility succeeded
+   * @async
+   */
+  async setVisibility(visibility: LevelVisibility): Promise<boolean> {
+    return await this.reupload({ visibility });
+  }
+
+  /**
+   * Changes whether the level can be copied by re-uploading it
+   * @param copyable Whether the level should be copyable
+   * @param visibility Who should be able to see the level. This is required because the servers do not report
+   *                   the current visibility, so re-uploading could otherwise change it
+   * @param password The password needed to copy the level. If omitted, the current password is kept. Use null to
+   *                 make the level free to copy
+   * @returns Whether changing the copy permissions succeeded
+   * @async
+   */
+  async setCopyable(
+    copyable: boolean,
+    visibility: LevelVisibility,
+    password?: number | string
+  ): Promise<boolean> {
+    return await this.reupload({ copyable, password, visibility });
+  }
 }
 
 interface LoggedInLevel extends Omit<Level, keyof SearchedLevel> {
@@ -669,12 +713,54 @@ class LoggedInLevel extends LoggedInSearchedLevel {
     } else {
       this.copy = { copyable: true };
       if (d[27] !== '1')
-        this.copy.password = (+decrypt(d[27], levelKey).slice(1)).toString().padStart(4, '0'); // Working on GDPS support
+        this.copy.password = (+decrypt(d[27], _creator._client.server.keys.level).slice(1))
+          .toString()
+          .padStart(4, '0');
     }
     this.data = d[4];
   }
 }
 
+/**
+ * Details about the current daily level or weekly demon, including its full representation
+ */
+class DailyLevel extends Level {
+  /** The index of the level among all daily levels (or weekly demons, if this is a weekly demon) */
+  dailyID: number;
+  /** Whether the level is a weekly demon or a daily level */
+  weekly: boolean;
+  /** The number of seconds left until the next daily level or weekly demon is chosen */
+  timeLeft: number;
+  /** The approximate time at which the next daily level or weekly demon will be chosen */
+  rotatesAt: Date;
+
+  /**
+   * Creates information about the daily level or weekly demon
+   * @param _creator The creator of the level
+   * @param rawData The raw data to parse
+   * @param userData The parsed user data
+   * @param songData The parsed song data
+   * @param rawInfo The raw daily info returned from the server
+   * @param weekly Whether the level is a weekly demon
+   * @internal
+   */
+  constructor(
+    _creator: LevelCreator,
+    rawData: string,
+    userData: string[],
+    songData: ParsedData,
+    rawInfo: string,
+    weekly: boolean
+  ) {
+    super(_creator, rawData, userData, songData);
+    const [index, timeLeft] = rawInfo.split('|');
+    this.weekly = weekly;
+    this.dailyID = weekly ? +index % 100000 : +index; // Weekly IDs are offset by 100000
+    this.timeLeft = +timeLeft;
+    this.rotatesAt = new Date(Date.now() + this.timeLeft * 1000);
+  }
+}
+
 Object.defineProperty(
   LoggedInLevel.prototype,
   'decodeData',
@@ -731,6 +817,8 @@ type BaseSearchConfig = {
   twoPlayer?: boolean;
   /** Whether to only get levels with coins */
   coins?: boolean;
+  /** The song (or the Newgrounds ID of the custom song) the levels should use */
+  song?: Song | number;
 };
 
 type NonDemonDiffConfig = {
@@ -845,7 +933,8 @@ const getSearchParams = ({
   length,
   original = false,
   twoPlayer = false,
-  coins = false
+  coins = false,
+  song
 }: SearchConfig): GDRequestParams => {
   if (typeof query === 'number') {
     query = query.toString();
@@ -867,10 +956,55 @@ const getSearchParams = ({
   if (original) params.insertParams({ original: 1 });
   if (twoPlayer) params.insertParams({ twoPlayer: 1 });
   if (coins) params.insertParams({ coins: 1 });
+  if (typeof song === 'number') params.insertParams({ song, customSong: 1 });
+  else if (song) {
+    params.insertParams({ song: song.id });
+    if (song.isCustom) params.insertParams({ customSong: 1 });
+  }
   params.authorize('db');
   return params;
 };
 
+/**
+ * Gets the current daily level or weekly demon
+ * @param creator The level creator to use
+ * @param weekly Whether to get the weekly demon or the daily level
+ * @returns The daily level or weekly demon; null if it could not be found
+ * @async
+ * @internal
+ */
+const getDailyLevel = async (creator: LevelCreator, weekly: boolean): Promise<DailyLevel> => {
+  const infoParams = new GDRequestParams({
+    weekly: +weekly
+  });
+  infoParams.authorize('db');
+  const info = await creator._client.req('/getGJDailyLevel.php', {
+    method: 'POST',
+    body: infoParams
+  });
+  if (info === '-1') return null;
+  const params = new GDRequestParams({
+    levelID: weekly ? -2 : -1,
+    inc: 1,
+    extras: 0
+  });
+  params.authorize('db');
+  const data = await creator._client.req('/downloadGJLevel22.php', {
+    method: 'POST',
+    body: params
+  });
+  if (data === '-1') return null;
+  const d = parse(data.slice(0, data.indexOf('#')));
+  // The creator is only sent for the daily and weekly levels
+  const userString = data.split('#')[3];
+  const userData = userString ? userString.split(':') : [];
+  const songID = d[35];
+  let songData: ParsedData;
+  // Songs removed from Newgrounds have no info, but the level itself is still available
+  if (songID && songID !== '0') songData = (await getSongData(creator, +songID)) || { 1: songID };
+  return new DailyLevel(creator, data, userData, songData, info, weekly);
+};
+
 /**
  * A creator for levels
  */
@@ -879,7 +1013,8 @@ class LevelCreator extends Creator {
    * Gets a level
    * @param levelID The level name or ID to get
    * @param resolve Whether to get the full level or not. Will cause an extra request.
-   * @returns The level with the given ID
+   * @throws {NotFoundError} if the level does not exist and the client is in strict mode
+   * @returns The level with the given ID; null if it does not exist
    * @async
    */
   async get(levelID: string | number, resolve?: false): Promise<SearchedLevel>;
@@ -887,15 +1022,37 @@ class LevelCreator extends Creator {
    * Gets a level
    * @param levelID The level name or ID to get
    * @param resolve Whether to get the full level or not. Will cause an extra request.
-   * @returns The level with the given ID
+   * @throws {NotFoundError} if the level does not exist and the client is in strict mode
+   * @returns The level with the given ID; null if it does not exist
    * @async
    */
   async get(levelID: string | number, resolve: true): Promise<Level>;
   async get(levelID: string | number, resolve = false): Promise<SearchedLevel | Level> {
     const level = await this.search({ query: levelID });
+    if (!level) return null;
     return resolve ? await level.resolve() : level;
   }
 
+  /**
+   * Gets the current daily level. If the info about its custom song is unavailable (e.g. because the song was
+   * removed from Newgrounds), only the song's ID is known.
+   * @returns The daily level, including how long it will remain the daily level
+   * @async
+   */
+  async getDaily(): Promise<DailyLevel> {
+    return await getDailyLevel(this, false);
+  }
+
+  /**
+   * Gets the current weekly demon. If the info about its custom song is unavailable (e.g. because the song was
+   * removed from Newgrounds), only the song's ID is known.
+   * @returns The weekly demon, including how long it will remain the weekly demon
+   * @async
+   */
+  async getWeekly(): Promise<DailyLevel> {
+    return await getDailyLevel(this, true);
+  }
+
   /**
    * Search for the by a logged in creator
    * @param creator The logged in creator to get the levels for
@@ -912,14 +1069,16 @@ class LevelCreator extends Creator {
    * @param creator The logged in creator to get the levels for
    * @param config The query to use when searching for the levels
    * @param num The number of results to get
-   * @returns The levels by the provided creator
+   * @param page The page of results to get, where each page has num results. Defaults to 0.
+   * @returns A page of the levels by the provided creator
    * @async
    */
   async byCreator(
     creator: LoggedInUser,
     config: Omit<SearchConfig, 'query' | 'orderBy'>,
-    num: number
-  ): Promise<LoggedInSearchedLevel[]>;
+    num: number,
+    page?: number
+  ): Promise<Page<LoggedInSearchedLevel>>;
   /**
    * Search for levels by a creator
    * @param creator The creator to get the levels for
@@ -937,52 +1096,75 @@ class LevelCreator extends Creator {
    * @param creator The creator to get the levels for
    * @param config The query to use when searching for the levels
    * @param num The number of results to get
-   * @returns The levels by the provided creator
+   * @param page The page of results to get, where each page has num results. Defaults to 0.
+   * @returns A page of the levels by the provided creator
    * @async
    */
   async byCreator(
     creator: StatlessSearchedUser | User | number,
     config: Omit<SearchConfig, 'query' | 'orderBy'>,
-    num: number
-  ): Promise<SearchedLevel[]>;
+    num: number,
+    page?: number
+  ): Promise<Page<SearchedLevel>>;
   async byCreator(
     creator: StatlessSearchedUser | User | number,
     config: Omit<SearchConfig, 'query' | 'orderBy'> = {},
-    num?: number
-  ): Promise<SearchedLevel | SearchedLevel[]> {
-    const singleReturn = !num;
-    if (singleReturn) num = 1;
-    let id: StatlessSearchedUser | User | number = creator;
-    if (typeof creator !== 'number') {
-      id = creator.id;
-    }
-    const params = getSearchParams({
-      query: '' + id,
+    num?: number,
+    page = 0
+  ): Promise<SearchedLevel | Page<SearchedLevel>> {
+    if (!num) return (await this.byCreatorIter(creator, config).next()).value || null;
+    return await fetchPage(this.byCreatorPages(creator, config), page, num);
+  }
+
+  /**
+   * Iterates over levels by a logged in creator, fetching each page of results only when it is needed
+   * @param creator The logged in creator to get the levels for
+   * @param config The query to use when searching for the levels
+   * @param startPage The page of results to start from. Defaults to 0.
+   * @returns An iterator over the levels by the provided creator
+   */
+  byCreatorIter(
+    creator: LoggedInUser,
+    config?: Omit<SearchConfig, 'query' | 'orderBy'>,
+    startPage?: number
+  ): PageIterator<LoggedInSearchedLevel>;
+  /**
+   * Iterates over levels by a creator, fetching each page of results only when it is needed
+   * @param creator The creator to get the levels for
+   * @param config The query to use when searching for the levels
+   * @param startPage The page of results to start from. Defaults to 0.
+   * @returns An iterator over the levels by the provided creator
+   */
+  byCreatorIter(
+    creator: StatlessSearchedUser | User | number,
+    config?: Omit<SearchConfig, 'query' | 'orderBy'>,
+    startPage?: number
+  ): PageIterator<SearchedLevel>;
+  byCreatorIter(
+    creator: StatlessSearchedUser | User | number,
+    config: Omit<SearchConfig, 'query' | 'orderBy'> = {},
+    startPage = 0
+  ): PageIterator<SearchedLevel> {
+    return new PageIterator(this.byCreatorPages(creator, config), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of levels by a creator
+   * @param creator The creator to get the levels for
+   * @param config The query to use when searching for the levels
+   * @returns The function to get each page with
+   * @internal
+   */
+  private byCreatorPages(
+    creator: StatlessSearchedUser | User | number,
+    config: Omit<SearchConfig, 'query' | 'orderBy'>
+  ): PageFetcher<SearchedLevel> {
+    const searchConfig = {
+      query: '' + (typeof creator === 'number' ? creator : creator.id),
       orderBy: 5 as OrderInt, // Special case
       ...config
-    } as SearchConfig);
-    const numToGet = Math.ceil(num / 10);
-    const levels: SearchedLevel[] = [];
-    for (let i = 0; i < numToGet; i++) {
-      params.insertParams({
-        page: i
-      });
-      const data = await this._client.req('/getGJLevels21.php', { method: 'POST', body: params });
-      if (data === '-1') return singleReturn ? null : levels;
-      const [levelString, userString, songString] = data.split('#');
-      const parsedUsers = userString.split('|').map(str => str.split(':'));
-      const parsedSongs = songString.split('~:~').map(str => parse(str, '~|~'));
-      levels.push(
-        ...levelString
-          .split('|')
-          .map(str =>
-            creator instanceof LoggedInUser
-              ? new LoggedInSearchedLevel(this, creator, str, parsedUsers, parsedSongs)
-              : new SearchedLevel(this, str, parsedUsers, parsedSongs)
-          )
-      );
-    }
-    return singleReturn ? levels[0] : levels.slice(0, num);
+    } as SearchConfig;
+    return this.searchPages(searchConfig, creator instanceof LoggedInUser ? creator : null);
   }
 
   /**
@@ -998,66 +1180,116 @@ class LevelCreator extends Creator {
    * @returns The levels with the associated IDs
    * @async
    */
-  async search(config: SearchConfig & { query: number[] }): Promise<SearchedLevel[]>;
+  async search(config: SearchConfig & { query: number[] }): Promise<Page<SearchedLevel>>;
   /**
    * Search for levels with a query
    * @param config The query to use when searching for the levels
    * @param num The number of results to get
-   * @returns The levels that match the query
+   * @param page The page of results to get, where each page has num results. Defaults to 0.
+   * @returns A page of the levels that match the query
    * @async
    */
-  async search(config: SearchConfig & { query: string }, num: number): Promise<SearchedLevel[]>;
-  async search(config: SearchConfig, num?: number): Promise<SearchedLevel | SearchedLevel[]> {
-    const singleReturn = !num;
-    if (singleReturn) num = 1;
-    const params = getSearchParams(config);
-    const numToGet = Math.ceil(num / 10);
-    const levels: SearchedLevel[] = [];
-    for (let i = 0; i < numToGet; i++) {
+  async search(
+    config: SearchConfig & { query: string },
+    num: number,
+    page?: number
+  ): Promise<Page<SearchedLevel>>;
+  async search(
+    config: SearchConfig,
+    num?: number,
+    page = 0
+  ): Promise<SearchedLevel | Page<SearchedLevel>> {
+    const multipleIDs = config.query instanceof Array;
+    if (!num && !multipleIDs) return (await this.searchIter(config).next()).value || null;
+    if (!num) num = (config.query as number[]).length;
+    return await fetchPage(this.searchPages(config), page, num);
+  }
+
+  /**
+   * Iterates over levels matching a query, fetching each page of results only when it is needed
+   * @param config The query to use when searching for the levels
+   * @param startPage The page of results to start from. Defaults to 0.
+   * @returns An iterator over the levels that match the query
+   */
+  searchIter(config: SearchConfig, startPage = 0): PageIterator<SearchedLevel> {
+    return new PageIterator(this.searchPages(config), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of level search results
+   * @param config The query to use when searching for the levels
+   * @param creator The logged in user who created the levels, if searching for their levels
+   * @returns The function to get each page with
+   * @internal
+   */
+  private searchPages(
+    config: SearchConfig,
+    creator: LoggedInUser = null
+  ): PageFetcher<SearchedLevel> {
+    return async (page: number): Promise<RawPage<SearchedLevel>> => {
+      const params = getSearchParams(config);
       params.insertParams({
-        page: i
+        page
       });
       const data = await this._client.req('/getGJLevels21.php', { method: 'POST', body: params });
-      if (data === '-1') return singleReturn ? null : levels;
+      if (data === '-1') return null;
       const [levelString, userString, songString] = data.split('#');
       const parsedUsers = userString.split('|').map(str => str.split(':'));
       const parsedSongs = songString.split('~:~').map(str => parse(str, '~|~'));
-      levels.push(
-        ...levelString.split('|').map(str => new SearchedLevel(this, str, parsedUsers, parsedSongs))
-      );
-    }
-    return singleReturn ? levels[0] : levels.slice(0, num);
+      return {
+        items: levelString
+          .split('|')
+          .map(str =>
+            creator
+              ? new LoggedInSearchedLevel(this, creator, str, parsedUsers, parsedSongs)
+              : new SearchedLevel(this, str, parsedUsers, parsedSongs)
+          ),
+        info: parsePageInfo(data)
+      };
+    };
   }
 }
 
 export {
+  PageIterator,
+  PageInfo,
+  Page,
   SearchedLevel,
   Level,
+  DailyLevel,
   GDDate,
   ParsedData,
   ParsedLevelData,
+  LevelObject,
+  HSV,
+  ObjectPropertyType,
+  ObjectProperty,
+  ObjectPropertyName,
+  OBJECT_PROPERTIES,
+  LevelSettings,
+  ColorChannel,
+  GameMode,
+  Speed,
   LevelCreator,
   LoggedInLevel,
   LoggedInSearchedLevel,
-  SongAuthor,
-  BaseSong,
-  CustomSong,
-  DefaultSong,
-  Song,
   Difficulty,
   DemonDifficulty,
   RawDifficulty,
   RawDemonDifficulty,
   DifficultyLevel,
+  getDifficulty,
   RawAward,
   PrettyAward,
   Award,
   RawLevelLength,
   PrettyLevelLength,
   LevelLength,
+  lengthToString,
   Coins,
   LevelData,
   FullLevelData,
+  encodeLevelData,
   Order,
   OrderInt,
   BaseSearchConfig,
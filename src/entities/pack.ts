@@ -0,0 +1,232 @@
+/**
+ * Map pack and gauntlet utilities
+ * @packageDocumentation
+ */
+
+import { parse, GDRequestParams, ParsedData } from '../util';
+import Creator from './entityCreator';
+import { SearchedLevel, DifficultyLevel, getDifficulty } from './level';
+
+/**
+ * A color used in a map pack's name or progress bar
+ */
+type PackColor = {
+  /** The red, green, and blue values of the color, as returned by the server */
+  raw: [number, number, number];
+  /** The color in hexadecimal notation */
+  parsed: string;
+};
+
+/**
+ * Generates a {@link PackColor} from a comma-separated RGB string returned by the Geometry Dash servers.
+ * @param rgb The RGB string from the Geometry Dash servers
+ * @returns The {@link PackColor} representing the given RGB string
+ * @internal
+ */
+const packColor = (rgb: string): PackColor => {
+  const raw = (rgb || '255,255,255').split(',').map(v => +v) as PackColor['raw'];
+  return {
+    raw,
+    parsed: '#' + raw.map(v => v.toString(16).padStart(2, '0')).join('')
+  };
+};
+
+/**
+ * Gets the difficulty of a map pack from the number returned by the server
+ * @param diff The raw map pack difficulty. 0 = Auto, 1 = Easy, ..., 5 = Insane, 6 = Demon
+ * @returns The difficulty as a full object
+ * @internal
+ */
+const packDifficulty = (diff: number): DifficultyLevel => {
+  if (diff === 0) return getDifficulty(0, 'auto');
+  // Map packs do not say which kind of demon they are
+  if (diff > 5) return { raw: 0, pretty: 'Demon' };
+  return getDifficulty(diff * 10);
+};
+
+/** @internal */
+const GAUNTLET_NAMES = [
+  'Unknown',
+  'Fire',
+  'Ice',
+  'Poison',
+  'Shadow',
+  'Lava',
+  'Bonus',
+  'Chaos',
+  'Demon',
+  'Time',
+  'Crystal',
+  'Magic',
+  'Spike',
+  'Monster',
+  'Doom',
+  'Death'
+];
+
+/**
+ * Resolves a list of level IDs into their levels
+ * @param creator The creator to get the levels with
+ * @param levelIDs The IDs of the levels to get
+ * @returns The levels with the given IDs, in the given order
+ * @async
+ * @internal
+ */
+const getPackLevels = async (
+  creator: PackCreator,
+  levelIDs: number[]
+): Promise<SearchedLevel[]> => {
+  if (!levelIDs.length) return [];
+  const levels = await creator._client.levels.search({ query: levelIDs });
+  return levelIDs.map(id => levels.find(level => level.id === id)).filter(level => level);
+};
+
+/**
+ * A map pack
+ */
+class MapPack {
+  /** The map pack's ID */
+  id: number;
+  /** The name of the map pack */
+  name: string;
+  /** The IDs of the levels in the map pack */
+  levelIDs: number[];
+  /** The number of stars awarded for completing the map pack */
+  stars: number;
+  /** The number of coins awarded for completing the map pack */
+  coins: number;
+  /** The difficulty of the map pack */
+  difficulty: DifficultyLevel;
+  /** The map pack's colors */
+  colors: {
+    /** The color of the map pack's name */
+    text: PackColor;
+    /** The color of the map pack's progress bar */
+    bar: PackColor;
+  };
+
+  /**
+   * Creates info about a map pack
+   * @param _creator The creator of the map pack
+   * @param rawData The raw data to parse
+   * @internal
+   */
+  constructor(
+    /** @internal */
+    private _creator: PackCreator,
+    rawData: string | ParsedData
+  ) {
+    const d = typeof rawData === 'string' ? parse(rawData) : rawData;
+    this.id = +d[1];
+    this.name = d[2];
+    this.levelIDs = d[3] ? d[3].split(',').map(id => +id) : [];
+    this.stars = +d[4];
+    this.coins = +d[5];
+    this.difficulty = packDifficulty(+d[6]);
+    this.colors = {
+      text: packColor(d[7]),
+      bar: packColor(d[8] || d[7])
+    };
+  }
+
+  /**
+   * Gets the levels in the map pack
+   * @returns The levels in the map pack, in order
+   * @async
+   */
+  async getLevels(): Promise<SearchedLevel[]> {
+    return await getPackLevels(this._creator, this.levelIDs);
+  }
+}
+
+/**
+ * A gauntlet
+ */
+class Gauntlet {
+  /** The gauntlet's ID */
+  id: number;
+  /** The name of the gauntlet (without the word "Gauntlet") */
+  name: string;
+  /** The IDs of the levels in the gauntlet */
+  levelIDs: number[];
+
+  /**
+   * Creates info about a gauntlet
+   * @param _creator The creator of the gauntlet
+   * @param rawData The raw data to parse
+   * @internal
+   */
+  constructor(
+    /** @internal */
+    private _creator: PackCreator,
+    rawData: string | ParsedData
+  ) {
+    const d = typeof rawData === 'string' ? parse(rawData) : rawData;
+    this.id = +d[1];
+    this.name = GAUNTLET_NAMES[this.id] || GAUNTLET_NAMES[0];
+    this.levelIDs = d[3] ? d[3].split(',').map(id => +id) : [];
+  }
+
+  /**
+   * Gets the levels in the gauntlet
+   * @returns The levels in the gauntlet, in order
+   * @async
+   */
+  async getLevels(): Promise<SearchedLevel[]> {
+    return await getPackLevels(this._creator, this.levelIDs);
+  }
+}
+
+/**
+ * A creator for map packs and gauntlets
+ */
+class PackCreator extends Creator {
+  /**
+   * Gets the map packs
+   * @param num The number of map packs to get. Defaults to 10.
+   * @returns The map packs, in the order they appear in the game
+   * @async
+   */
+  async getMapPacks(num = 10): Promise<MapPack[]> {
+    const numToGet = Math.ceil(num / 10);
+    const packs: MapPack[] = [];
+    for (let page = 0; page < numToGet; page++) {
+      const params = new GDRequestParams({
+        page
+      });
+      params.authorize('db');
+      const data = await this._client.req('/getGJMapPacks21.php', {
+        method: 'POST',
+        body: params
+      });
+      if (data === '-1') return packs;
+      const split = data.slice(0, data.indexOf('#')).split('|');
+      packs.push(...split.map(str => new MapPack(this, str)));
+      if (split.length < 10) break;
+    }
+    return packs.slice(0, num);
+  }
+
+  /**
+   * Gets the gauntlets
+   * @returns All of the gauntlets, in the order they appear in the game
+   * @async
+   */
+  async getGauntlets(): Promise<Gauntlet[]> {
+    const params = new GDRequestParams({
+      special: 1
+    });
+    params.authorize('db');
+    const data = await this._client.req('/getGJGauntlets21.php', {
+      method: 'POST',
+      body: params
+    });
+    if (data === '-1') return [];
+    return data
+      .slice(0, data.indexOf('#'))
+      .split('|')
+      .map(str => new Gauntlet(this, str));
+  }
+}
+
+export { MapPack, Gauntlet, PackColor, PackCreator };
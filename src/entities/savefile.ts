@@ -0,0 +1,305 @@
+/**
+ * Savefile utilities
+ * @packageDocumentation
+ */
+
+import {
+  decodeSaveData,
+  encodeSaveData,
+  parsePlist,
+  serializePlist,
+  copyPlistDict,
+  gdDecodeBase64,
+  gdEncodeBase64,
+  PlistValue,
+  PlistDict
+} from '../util';
+import { Level } from './level';
+import { DefaultSong, BaseSong } from './song';
+
+/**
+ * A reference to a custom song used by a local level. Savefiles only store the song's ID.
+ */
+class LocalCustomSong implements BaseSong {
+  /** The name of the song. Unknown for local levels, so always empty */
+  name = '';
+  isCustom: true = true;
+
+  /**
+   * Creates a reference to a custom song
+   * @param id The song's Newgrounds ID
+   * @internal
+   */
+  constructor(
+    /** The song's Newgrounds ID */
+    public id: number
+  ) {}
+}
+
+/**
+ * Sets a value in a dictionary, removing the key instead if the value is empty
+ * @param dict The dictionary to modify
+ * @param key The key to set
+ * @param value The value to set
+ * @internal
+ */
+const setOrDelete = (dict: PlistDict, key: string, value: PlistValue): void => {
+  if (value) dict[key] = value;
+  else delete dict[key];
+};
+
+interface LocalLevel extends Pick<Level, 'decodeData'> {
+  /**
+   * Prevent prettier from converting this to an interface
+   * @internal
+   */
+  '': undefined;
+}
+
+/**
+ * A level stored in the player's savefile (i.e. a level in the editor)
+ */
+class LocalLevel {
+  /** The name of the level */
+  name: string;
+  /** The level's ID. If the level has never been uploaded, this is 0 */
+  id: number;
+  /** The level's version */
+  version: number;
+  /** The level's description */
+  description: string;
+  /** The name of the player who created the level */
+  creatorName: string;
+  /** The song the level uses */
+  song: DefaultSong | LocalCustomSong;
+  /** Whether the level has been verified */
+  verified: boolean;
+  /** The number of objects in the level */
+  objects: number;
+  /** The raw level string before decoding and decompressing. Can be decoded with {@link LocalLevel.decodeData} */
+  data: string;
+  /**
+   * The raw dictionary for the level, as stored in the savefile
+   * @internal
+   */
+  _raw: PlistDict;
+
+  /**
+   * Creates info about a local level
+   * @param rawData The parsed dictionary for the level
+   * @internal
+   */
+  constructor(rawData: PlistDict) {
+    this._raw = rawData;
+    this.name = (rawData.k2 as string) || '';
+    this.id = +rawData.k1 || 0;
+    this.version = +rawData.k16 || 1;
+    this.description = rawData.k3 ? gdDecodeBase64(rawData.k3 as string) : '';
+    this.creatorName = (rawData.k5 as string) || '';
+    this.song = rawData.k45
+      ? new LocalCustomSong(+rawData.k45)
+      : new DefaultSong(null, +rawData.k8 || 0);
+    this.verified = !!rawData.k14;
+    this.objects = +rawData.k48 || 0;
+    this.data = (rawData.k4 as string) || '';
+  }
+
+  /**
+   * Writes any changes to the level back into its raw dictionary
+   * @returns The raw dictionary for the level
+   * @internal
+   */
+  _sync(): PlistDict {
+    const raw = this._raw;
+    setOrDelete(raw, 'k2', this.name);
+    setOrDelete(raw, 'k1', this.id);
+    setOrDelete(raw, 'k16', this.version);
+    if (this.description !== (raw.k3 ? gdDecodeBase64(raw.k3 as string) : ''))
+      setOrDelete(raw, 'k3', gdEncodeBase64(this.description));
+    setOrDelete(raw, 'k5', this.creatorName);
+    setOrDelete(raw, 'k45', this.song.isCustom ? this.song.id : 0);
+    setOrDelete(raw, 'k8', this.song.isCustom ? 0 : this.song.id - 1);
+    setOrDelete(raw, 'k14', this.verified);
+    setOrDelete(raw, 'k48', this.objects);
+    setOrDelete(raw, 'k4', this.data);
+    return raw;
+  }
+}
+
+Object.defineProperty(
+  LocalLevel.prototype,
+  'decodeData',
+  Object.getOwnPropertyDescriptor(Level.prototype, 'decodeData')
+);
+
+/**
+ * Creates the raw dictionary for a local level from a level downloaded from the servers
+ * @param level The level to convert
+ * @returns The raw dictionary for a new local level
+ * @internal
+ */
+const levelToPlist = (level: Level): PlistDict => {
+  const raw: PlistDict = {
+    kCEK: 4,
+    k2: level.name,
+    k4: level.data,
+    k5: '',
+    k13: true,
+    k16: level.version,
+    k21: 2,
+    k48: level.stats.objects,
+    k50: 35
+  };
+  if (level.description) raw.k3 = gdEncodeBase64(level.description);
+  if (level.song.isCustom) raw.k45 = level.song.id;
+  else raw.k8 = level.song.id - 1;
+  if (level.id) raw.k42 = level.id;
+  return raw;
+};
+
+/**
+ * A decoded Geometry Dash savefile
+ */
+class SaveFile {
+  /** The parsed contents of the savefile */
+  data: PlistDict;
+
+  /**
+   * Creates a decoded savefile
+   * @param data The parsed contents of the savefile
+   * @internal
+   */
+  constructor(data: PlistDict) {
+    this.data = data;
+  }
+
+  /**
+   * Encodes the savefile so that it can be loaded by Geometry Dash
+   * @returns The raw contents of the savefile
+   * @async
+   */
+  async encode(): Promise<Uint8Array> {
+    return await encodeSaveData(serializePlist(this.data));
+  }
+}
+
+/**
+ * A decoded local levels savefile (CCLocalLevels.dat)
+ */
+class LocalLevelsFile extends SaveFile {
+  /** The levels in the savefile, in the order they appear in the editor */
+  levels: LocalLevel[];
+
+  /**
+   * Creates a decoded local levels savefile
+   * @param data The parsed contents of the savefile
+   * @internal
+   */
+  constructor(data: PlistDict) {
+    super(data);
+    const levels = (data.LLM_01 || {}) as PlistDict;
+    this.levels = Object.keys(levels)
+      .filter(k => k.startsWith('k_'))
+      .sort((a, b) => +a.slice(2) - +b.slice(2))
+      .map(k => new LocalLevel(levels[k] as PlistDict));
+  }
+
+  /**
+   * Finds the index of a level in the savefile
+   * @param level The level (or its index in the editor)
+   * @returns The index of the level; -1 if not found
+   * @internal
+   */
+  private indexOf(level: LocalLevel | number): number {
+    if (level instanceof LocalLevel) return this.levels.indexOf(level);
+    return level >= 0 && level < this.levels.length ? level : -1;
+  }
+
+  /**
+   * Adds a level to the savefile
+   * @param level The level to add. This can be a level downloaded from the servers or another local level
+   * @param index The position to insert the level at in the editor. Defaults to 0 (the top)
+   * @returns The newly added local level
+   */
+  addLevel(level: Level | LocalLevel, index = 0): LocalLevel {
+    const localLevel = new LocalLevel(
+      level instanceof LocalLevel ? copyPlistDict(level._sync()) : levelToPlist(level)
+    );
+    this.levels.splice(index, 0, localLevel);
+    return localLevel;
+  }
+
+  /**
+   * Replaces a level in the savefile
+   * @param level The level to replace (or its index in the editor)
+   * @param newLevel The level to replace it with
+   * @returns The newly added local level; null if the level to replace was not found
+   */
+  replaceLevel(level: LocalLevel | number, newLevel: Level | LocalLevel): LocalLevel {
+    const index = this.indexOf(level);
+    if (index === -1) return null;
+    this.levels.splice(index, 1);
+    return this.addLevel(newLevel, index);
+  }
+
+  /**
+   * Renames a level in the savefile
+   * @param level The level to rename (or its index in the editor)
+   * @param name The new name of the level
+   * @returns Whether the level was found and renamed
+   */
+  renameLevel(level: LocalLevel | number, name: string): boolean {
+    const index = this.indexOf(level);
+    if (index === -1) return false;
+    this.levels[index].name = name;
+    return true;
+  }
+
+  /**
+   * Deletes a level from the savefile
+   * @param level The level to delete (or its index in the editor)
+   * @returns Whether the level was found and deleted
+   */
+  deleteLevel(level: LocalLevel | number): boolean {
+    const index = this.indexOf(level);
+    if (index === -1) return false;
+    this.levels.splice(index, 1);
+    return true;
+  }
+
+  async encode(): Promise<Uint8Array> {
+    const levels: PlistDict = { _isArr: true };
+    this.levels.forEach((level, i) => (levels['k_' + i] = level._sync()));
+    this.data.LLM_01 = levels;
+    return await super.encode();
+  }
+}
+
+/**
+ * Reads a Geometry Dash savefile, such as CCGameManager.dat
+ * @param data The raw contents of the savefile. Strings are treated as binary (Latin-1) data
+ * @returns The decoded savefile
+ * @async
+ */
+const readSaveFile = async (data: Uint8Array | string): Promise<SaveFile> =>
+  new SaveFile(parsePlist(await decodeSaveData(data)));
+
+/**
+ * Reads a local levels savefile (CCLocalLevels.dat)
+ * @param data The raw contents of the savefile. Strings are treated as binary (Latin-1) data
+ * @returns The decoded savefile, including the local levels
+ * @async
+ */
+const readLocalLevels = async (data: Uint8Array | string): Promise<LocalLevelsFile> =>
+  new LocalLevelsFile(parsePlist(await decodeSaveData(data)));
+
+export {
+  LocalCustomSong,
+  LocalLevel,
+  SaveFile,
+  LocalLevelsFile,
+  readSaveFile,
+  readLocalLevels,
+  PlistValue,
+  PlistDict
+};
@@ -0,0 +1,340 @@
+/**
+ * Song utilities
+ * @packageDocumentation
+ */
+
+import { parse, ParsedData, GDRequestParams } from '../util';
+import Creator from './entityCreator';
+import { SearchedLevel } from './level';
+
+/**
+ * Information about a song author
+ */
+class SongAuthor {
+  /** The author's YouTube channel. Only present for top artists that have linked one */
+  youtube?: string;
+
+  /**
+   * Creates info about a song author
+   * @param _creator The associated creator
+   * @param name The author's name
+   * @param id The author's Newgrounds ID
+   * @param youtubeID The ID of the author's YouTube channel
+   * @internal
+   */
+  constructor(
+    /** @internal */
+    private _creator: Creator,
+    /** The author's name */
+    public name: string,
+    /** The author's Newgrounds ID. Undefined for top artists, since the servers do not report it */
+    public id?: number,
+    youtubeID?: string
+  ) {
+    if (youtubeID) this.youtube = 'https://www.youtube.com/channel/' + youtubeID;
+  }
+
+  /**
+   * Finds songs by the author among the songs used in the most liked levels.
+   *
+   * The servers cannot list an artist's songs, so this is not a full list: songs that are not used in any of the
+   * levels looked through are never found. Looking through more levels finds more songs, but takes more requests.
+   * @param num The number of levels to look through. Defaults to 50.
+   * @returns The songs by the author that were found, in the order they were found
+   * @async
+   */
+  async getSongs(num = 50): Promise<CustomSong[]> {
+    const levels = await this._creator._client.levels.search({ query: '', orderBy: 'likes' }, num);
+    const songs: CustomSong[] = [];
+    for (const { song } of levels) {
+      if (
+        song.isCustom &&
+        // Top artists have no Newgrounds ID, so they can only be matched by name
+        (this.id ? song.author.id === this.id : song.author.name === this.name) &&
+        !songs.some(other => other.id === song.id)
+      )
+        songs.push(song);
+    }
+    return songs;
+  }
+}
+
+/** @internal */
+const DEFAULT_SONGS: [string, string][] = [
+  ['Stay Inside Me', 'OcularNebula'],
+  ['Stereo Madness', 'ForeverBound'],
+  ['Back on Track', 'DJVI'],
+  ['Polargeist', 'Step'],
+  ['Dry Out', 'DJVI'],
+  ['Base After Base', 'DJVI'],
+  ["Can't Let Go", 'DJVI'],
+  ['Jumper', 'Waterflame'],
+  ['Time Machine', 'Waterflame'],
+  ['Cycles', 'DJVI'],
+  ['xStep', 'DJVI'],
+  ['Clutterfunk', 'Waterflame'],
+  ['Theory of Everything', 'DJ-Nate'],
+  ['Electroman Adventures', 'Waterflame'],
+  ['Clubstep', 'DJ-Nate'],
+  ['Electrodynamix', 'DJ-Nate'],
+  ['Hexagon Force', 'Waterflame'],
+  ['Blast Processing', 'Waterflame'],
+  ['Theory of Everything 2', 'DJ-Nate'],
+  ['Geometrical Dominator', 'Waterflame'],
+  ['Deadlocked', 'F-777'],
+  ['Fingerdash', 'MDK'],
+  ['The Seven Seas', 'F-777'],
+  ['Viking Arena', 'F-777'],
+  ['Airborne Robots', 'F-777'],
+  ['The Challenge', 'RobTop'],
+  ['Payload', 'Dex Arson'],
+  ['Beast Mode', 'Dex Arson'],
+  ['Machina', 'Dex Arson'],
+  ['Years', 'Dex Arson'],
+  ['Frontlines', 'Dex Arson'],
+  ['Space Pirates', 'Waterflame'],
+  ['Striker', 'Waterflame'],
+  ['Round 1', 'Dex Arson'],
+  ['Embers', 'Dex Arson'],
+  ['Monster Dance Off', 'F-777'],
+  ['Press Start', 'MDK'],
+  ['Nock Em', 'Bossfight'],
+  ['Power Trip', 'Boom Kitty']
+];
+
+/**
+ * Checks whether a number of bytes matches the size of a song reported by the servers.
+ * The servers round the size to the nearest hundredth of a megabyte, so small differences are allowed.
+ * @param bytes The actual number of bytes
+ * @param expected The number of bytes reported by the servers
+ * @returns Whether the sizes match
+ * @internal
+ */
+const matchesSize = (bytes: number, expected: number): boolean =>
+  Math.abs(bytes - expected) <= 0.01 * 1048576;
+
+/**
+ * Reads the body of a response, stopping as soon as it grows past a maximum size
+ * @param resp The response to read
+ * @param maxBytes The maximum number of bytes to read
+ * @returns The body; null if it was larger than the maximum size
+ * @async
+ * @internal
+ */
+const readLimited = async (resp: Response, maxBytes: number): Promise<Uint8Array> => {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  // The fetch API exposes a web stream, while node-fetch exposes a Node.js stream
+  const body = resp.body as ReadableStream<Uint8Array> | NodeJS.ReadableStream;
+  if (body && 'getReader' in body) {
+    const reader = body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      length += chunk.value.length;
+      if (length > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(chunk.value);
+    }
+  } else if (body) {
+    const stream = body as NodeJS.ReadableStream & { destroy?: () => void };
+    const tooLarge = await new Promise<boolean>((resolve, reject) => {
+      stream.on('data', (chunk: Uint8Array) => {
+        length += chunk.length;
+        if (length > maxBytes) {
+          stream.removeAllListeners('data');
+          if (stream.destroy) stream.destroy();
+          else stream.pause();
+          resolve(true);
+        } else chunks.push(chunk);
+      });
+      stream.on('end', () => resolve(false));
+      stream.on('error', reject);
+    });
+    if (tooLarge) return null;
+  } else {
+    const data = new Uint8Array(await resp.arrayBuffer());
+    return data.length > maxBytes ? null : data;
+  }
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+};
+
+/**
+ * Base definition for a song
+ */
+interface BaseSong {
+  /** The name of the song */
+  name: string;
+  /** Whether or not the song is a custom song */
+  isCustom: boolean;
+}
+
+/**
+ * Information about a default song
+ */
+class DefaultSong implements BaseSong {
+  name: string;
+  /** The default song's Geometry Dash ID */
+  id: number;
+  /** The song author's name */
+  authorName: string;
+  isCustom: false = false;
+
+  /**
+   * Creates info about a song
+   * @param _creator The associated level's creator
+   * @param id The numeric ID of the song
+   * @internal
+   */
+  constructor(private _creator: Creator, id: number) {
+    id += 1;
+    const song = DEFAULT_SONGS[id];
+    this.id = id;
+    this.name = song[0];
+    this.authorName = song[1];
+  }
+}
+
+/**
+ * Information about a custom song
+ */
+class CustomSong implements BaseSong {
+  name: string;
+  /** The song's Newgrounds ID */
+  id: number;
+  /** The song's author */
+  author: SongAuthor;
+  /** The size of the song */
+  size: {
+    /** The raw number of bytes in the song. Note this may not be completely accurate. */
+    raw: number;
+    /** The size of the song in a human-readable format */
+    pretty: string;
+  };
+  /** The URL containing the raw audio file. Undefined if the song's info is unavailable */
+  url: string;
+  isCustom: true = true;
+
+  /**
+   * Creates info about a song
+   * @param _creator The associated creator
+   * @param rawData The raw data to parse
+   * @internal
+   */
+  constructor(private _creator: Creator, d: ParsedData) {
+    this.id = +d[1];
+    this.name = d[2];
+    this.author = new SongAuthor(_creator, d[4], +d[3]);
+    this.size = {
+      raw: Math.floor(+d[5] * 1048576),
+      pretty: d[5] ? d[5] + ' MB' : 'Unknown'
+    };
+    if (d[10]) this.url = decodeURIComponent(d[10]);
+  }
+
+  /**
+   * Downloads the song's audio file. The download is streamed and stops as soon as the file grows larger than
+   * the size reported by the servers.
+   * @returns The raw audio file (usually an MP3); null if the download failed or the file's size
+   *          does not match the size reported by the servers
+   * @async
+   */
+  async download(): Promise<Uint8Array> {
+    if (!this.url) return null;
+    const resp = await this._creator._client.req(this.url, {}, true);
+    if (!resp.ok) return null;
+    const expectedSize = +resp.headers.get('Content-Length');
+    if (expectedSize && !matchesSize(expectedSize, this.size.raw)) return null;
+    const data = await readLimited(resp, this.size.raw + 0.01 * 1048576);
+    if (!data || !matchesSize(data.length, this.size.raw)) return null;
+    return data;
+  }
+
+  /**
+   * Gets levels that use the song
+   * @param num The number of levels to get. Defaults to 10.
+   * @returns The levels that use the song, ordered by likes
+   * @async
+   */
+  async getLevels(num = 10): Promise<SearchedLevel[]> {
+    return await this._creator._client.levels.search({ query: '', song: this }, num);
+  }
+}
+
+type Song = DefaultSong | CustomSong;
+
+/**
+ * Gets the raw info about a custom song
+ * @param creator The creator to get the song with
+ * @param id The song's Newgrounds ID
+ * @returns The parsed song data; null if the song could not be found
+ * @async
+ * @internal
+ */
+const getSongData = async (creator: Creator, id: number): Promise<ParsedData> => {
+  const params = new GDRequestParams({
+    songID: id
+  });
+  params.authorize('db');
+  const data = await creator._client.req('/getGJSongInfo.php', {
+    method: 'POST',
+    body: params
+  });
+  if (data === '-1' || data === '-2' || !data) return null;
+  return parse(data, '~|~');
+};
+
+/**
+ * A creator for songs
+ */
+class SongCreator extends Creator {
+  /**
+   * Gets info about a custom song
+   * @param id The song's Newgrounds ID
+   * @returns The song; null if it could not be found or is not allowed for use in levels
+   * @async
+   */
+  async get(id: number): Promise<CustomSong> {
+    const data = await getSongData(this, id);
+    return data ? new CustomSong(this, data) : null;
+  }
+
+  /**
+   * Gets the top artists, in the order they appear in the game
+   * @param num The number of artists to get. Defaults to 20.
+   * @returns The top artists
+   * @async
+   */
+  async getTopArtists(num = 20): Promise<SongAuthor[]> {
+    const numToGet = Math.ceil(num / 20);
+    const artists: SongAuthor[] = [];
+    for (let page = 0; page < numToGet; page++) {
+      const params = new GDRequestParams({
+        page
+      });
+      params.authorize('db');
+      const data = await this._client.req('/getGJTopArtists.php', {
+        method: 'POST',
+        body: params
+      });
+      if (data === '-1' || !data) break;
+      const split = data.slice(0, data.indexOf('#')).split('|');
+      artists.push(
+        ...split.map(str => {
+          const d = parse(str);
+          return new SongAuthor(this, d[4], undefined, d[7]);
+        })
+      );
+      if (split.length < 20) break;
+    }
+    return artists.slice(0, num);
+  }
+}
+
+export { SongAuthor, BaseSong, DefaultSong, CustomSong, Song, SongCreator, getSongData };
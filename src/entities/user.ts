@@ -5,11 +5,19 @@
 
 import Client from '..';
 import Creator from './entityCreator';
-import { SearchedLevel, Level, LoggedInSearchedLevel } from './level';
+import {
+  SearchedLevel,
+  Level,
+  LoggedInSearchedLevel,
+  RawLevelLength,
+  PrettyLevelLength,
+  lengthToString
+} from './level';
+import { Song } from './song';
 import {
   parse,
   GDRequestParams,
-  accountKey,
+  GDRequestData,
   encrypt,
   gdDecodeBase64,
   gdEncodeBase64,
@@ -19,10 +27,21 @@ import {
   uuid,
   generateDate,
   genRS,
-  commentKey,
-  commentSalt,
-  likeKey,
-  likeSalt
+  compress,
+  decompress,
+  PageIterator,
+  PageFetcher,
+  RawPage,
+  Page,
+  parsePageInfo,
+  fetchPage,
+  ServerProfile,
+  generateGJP,
+  generateGJP2,
+  decodeGJP,
+  getError,
+  NotFoundError,
+  InvalidCredentialsError
 } from '../util';
 import sha1 from 'sha1';
 
@@ -470,6 +489,8 @@ const generateSocial = (path: string, type: keyof typeof SOCIALMAP): SocialURL =
  * An icon type
  */
 type IconCosmetic = 'cube' | 'ship' | 'ball' | 'ufo' | 'wave' | 'spider' | 'robot';
+/** @internal */
+const ICONTYPEMAP: IconCosmetic[] = ['cube', 'ship', 'ball', 'ufo', 'wave', 'robot', 'spider'];
 /**
  * The colors in a Geometry Dash user's profile
  */
@@ -649,19 +670,35 @@ class User {
   /**
    * Get the comments posted to this account's page
    * @param num The maximum number of comments to get
-   * @returns An array of this user's profile comments
+   * @param page The page of comments to get, where each page has num comments. Defaults to 0.
+   * @returns A page of this user's profile comments
    * @async
    */
-  async getAccountComments(num: number): Promise<AccountComment<this>[]>;
-  async getAccountComments(num?: number): Promise<AccountComment<this> | AccountComment<this>[]> {
-    let singleReturn = false;
-    if (!num) {
-      num = 1;
-      singleReturn = true;
-    }
-    const numToGet = Math.ceil(num / 10);
-    const comments: AccountComment<this>[] = [];
-    for (let page = 0; page < numToGet; page++) {
+  async getAccountComments(num: number, page?: number): Promise<Page<AccountComment<this>>>;
+  async getAccountComments(
+    num?: number,
+    page = 0
+  ): Promise<AccountComment<this> | Page<AccountComment<this>>> {
+    if (!num) return (await this.getAccountCommentsIter().next()).value || null;
+    return await fetchPage(this.accountCommentPages(), page, num);
+  }
+
+  /**
+   * Iterates over the comments posted to this account's page, fetching each page of comments only when it is needed
+   * @param startPage The page of comments to start from. Defaults to 0.
+   * @returns An iterator over this user's profile comments
+   */
+  getAccountCommentsIter(startPage = 0): PageIterator<AccountComment<this>> {
+    return new PageIterator(this.accountCommentPages(), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of this account's profile comments
+   * @returns The function to get each page with
+   * @internal
+   */
+  private accountCommentPages(): PageFetcher<AccountComment<this>> {
+    return async (page: number): Promise<RawPage<AccountComment<this>>> => {
       const params = new GDRequestParams({
         accountID: this.accountID,
         page,
@@ -672,18 +709,19 @@ class User {
         method: 'POST',
         body: params
       });
-      if (data === '-1') return singleReturn ? null : [];
-      const split = data.slice(0, data.indexOf('#')).split('|');
-      comments.push(
-        ...split.map(str =>
-          this instanceof LoggedInUser
-            ? ((new LoggedInAccountComment(this, str) as unknown) as AccountComment<this>)
-            : new AccountComment(this, str)
-        )
-      );
-      if (split.length < 10) break;
-    }
-    return singleReturn ? comments[0] || null : comments.slice(0, num);
+      if (data === '-1') return null;
+      return {
+        items: data
+          .slice(0, data.indexOf('#'))
+          .split('|')
+          .map(str =>
+            this instanceof LoggedInUser
+              ? ((new LoggedInAccountComment(this, str) as unknown) as AccountComment<this>)
+              : new AccountComment(this, str)
+          ),
+        info: parsePageInfo(data)
+      };
+    };
   }
 
   /**
@@ -697,44 +735,78 @@ class User {
    * Gets the most recent or most liked level comments by the user
    * @param byLikes Whether to sort by likes or not
    * @param num The number of comments to get
-   * @returns An array of the most recent or most liked comments made by this user
+   * @param page The page of comments to get, where each page has num comments. Defaults to 0.
+   * @returns A page of the most recent or most liked comments made by this user
    * @async
    */
-  async getComments(byLikes: boolean, num: number): Promise<LevelComment<this>[]>;
+  async getComments(
+    byLikes: boolean,
+    num: number,
+    page?: number
+  ): Promise<Page<LevelComment<this>>>;
   async getComments(
     byLikes = false,
-    num?: number
-  ): Promise<LevelComment<this> | LevelComment<this>[]> {
-    let singleReturn = false;
-    if (!num) {
-      num = 1;
-      singleReturn = true;
-    }
-    const params = new GDRequestParams({
-      count: num,
-      userID: this.id,
-      mode: +byLikes,
-      page: 0,
-      total: 0
-    });
-    params.authorize('db');
-    const data = await this._creator._client.req('/getGJCommentHistory.php', {
-      method: 'POST',
-      body: params
-    });
-    if (data === '-1') return singleReturn ? null : [];
-    const comments = data
-      .slice(0, data.indexOf('#'))
-      .split('|')
-      .map(str => {
-        const comment = str.slice(0, str.indexOf(':'));
-        return this instanceof LoggedInUser
-          ? ((new LoggedInLevelComment(this._creator, this, comment) as unknown) as LevelComment<
-              this
-            >)
-          : new LevelComment(this._creator, this, comment);
+    num?: number,
+    page = 0
+  ): Promise<LevelComment<this> | Page<LevelComment<this>>> {
+    const comments = await fetchPage(
+      this.commentPages(byLikes, num || 1),
+      page,
+      num || 1,
+      num || 1
+    );
+    return num ? comments : comments[0] || null;
+  }
+
+  /**
+   * Iterates over the level comments by the user, fetching each page of comments only when it is needed
+   * @param byLikes Whether to sort by likes or not
+   * @param startPage The page of comments to start from. Defaults to 0.
+   * @returns An iterator over the most recent or most liked comments made by this user
+   */
+  getCommentsIter(byLikes = false, startPage = 0): PageIterator<LevelComment<this>> {
+    return new PageIterator(this.commentPages(byLikes, 10), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of the level comments by the user
+   * @param byLikes Whether to sort by likes or not
+   * @param count The number of comments on each page
+   * @returns The function to get each page with
+   * @internal
+   */
+  private commentPages(byLikes: boolean, count: number): PageFetcher<LevelComment<this>> {
+    return async (page: number): Promise<RawPage<LevelComment<this>>> => {
+      const params = new GDRequestParams({
+        count,
+        userID: this.id,
+        mode: +byLikes,
+        page,
+        total: 0
+      });
+      params.authorize('db');
+      const data = await this._creator._client.req('/getGJCommentHistory.php', {
+        method: 'POST',
+        body: params
       });
-    return singleReturn ? comments[0] : comments;
+      if (data === '-1') return null;
+      return {
+        items: data
+          .slice(0, data.indexOf('#'))
+          .split('|')
+          .map(str => {
+            const comment = str.slice(0, str.indexOf(':'));
+            return this instanceof LoggedInUser
+              ? ((new LoggedInLevelComment(
+                  this._creator,
+                  this,
+                  comment
+                ) as unknown) as LevelComment<this>)
+              : new LevelComment(this._creator, this, comment);
+          }),
+        info: parsePageInfo(data)
+      };
+    };
   }
 
   /**
@@ -781,8 +853,8 @@ const like = async (
   const rs = genRS();
   const like = +shouldLike;
   const chk = encrypt(
-    sha1('' + special + id + like + type + rs + accountID + udid + uuid + likeSalt),
-    likeKey
+    sha1('' + special + id + like + type + rs + accountID + udid + uuid + client.server.salts.like),
+    client.server.keys.like
   );
   const params = new GDRequestParams({
     accountID,
@@ -805,6 +877,71 @@ const like = async (
   );
 };
 
+/**
+ * Generates the checksum for a level upload from evenly spaced characters of the level string
+ * @param levelString The compressed level string to upload
+ * @param server The profile of the server the level is uploaded to
+ * @returns The checksum to send as `seed2`
+ * @internal
+ */
+const generateUploadSeed = (levelString: string, server: ServerProfile): string => {
+  let sample = levelString;
+  if (levelString.length >= 50) {
+    const step = Math.floor(levelString.length / 50);
+    sample = '';
+    for (let i = 0; i < 50; i++) sample += levelString[i * step];
+  }
+  return encrypt(sha1(sample + server.salts.upload), server.keys.upload);
+};
+
+/** @internal */
+const LEVEL_VISIBILITIES = {
+  public: 0,
+  unlisted: 1,
+  friends: 2
+};
+
+/**
+ * Who can see a level. Unlisted levels can only be found by their ID, while friends-only levels can only be found by the creator's friends
+ */
+type LevelVisibility = keyof typeof LEVEL_VISIBILITIES;
+
+/**
+ * Configuration for a level upload
+ */
+type LevelUploadConfig = {
+  /** The name of the level */
+  name: string;
+  /** The description of the level */
+  description?: string;
+  /** The level data. This can be either the decoded level string or the compressed data (e.g. from {@link Level.data} or {@link encodeLevelData}) */
+  levelString: string;
+  /** The custom song (or its Newgrounds ID) the level uses. Overrides audioTrack */
+  song?: Song | number;
+  /** The official song the level uses, as the index in the game's song list. Defaults to 0 (Stereo Madness) */
+  audioTrack?: number;
+  /** The length of the level. Defaults to Tiny */
+  length?: RawLevelLength | PrettyLevelLength;
+  /** The number of user coins in the level */
+  coins?: 0 | 1 | 2 | 3;
+  /** The number of stars to request */
+  requestedStars?: number;
+  /** Whether the level should be unlisted. Ignored if visibility is set */
+  unlisted?: boolean;
+  /** Who can see the level. Defaults to public, or unlisted if unlisted is set */
+  visibility?: LevelVisibility;
+  /** Whether the level can be copied. Defaults to false */
+  copyable?: boolean;
+  /** The password needed to copy the level. Only used if the level is copyable. If omitted or null, the level is free to copy */
+  password?: number | string;
+  /** Whether the level has a low detail mode */
+  ldm?: boolean;
+  /** Whether the level supports two-player mode */
+  twoPlayer?: boolean;
+  /** The level (or its ID) this level was copied from */
+  original?: SearchedLevel | number;
+};
+
 /**
  * Credentials to use in requests to Geometry Dash servers
  */
@@ -813,14 +950,174 @@ export type Credentials = {
   userName: string;
   /** The player's account ID */
   accountID: number;
-  /** The player's password, XOR-encrypted */
+  /** The player's password, XOR-encrypted (GJP). Used by Geometry Dash 2.1 */
   gjp: string;
+  /** The salted SHA-1 hash of the player's password (GJP2). Used by Geometry Dash 2.2. Generated from the GJP if omitted */
+  gjp2?: string;
+};
+
+/**
+ * Encrypts and decrypts exported sessions, so that they can be stored safely
+ */
+type SessionCipher = {
+  /**
+   * Encrypts an exported session
+   * @param session The session to encrypt
+   * @returns The encrypted session
+   */
+  encrypt(session: string): string | Promise<string>;
+  /**
+   * Decrypts an exported session
+   * @param data The encrypted session
+   * @returns The decrypted session
+   */
+  decrypt(data: string): string | Promise<string>;
+};
+
+/**
+ * A player's game data, as backed up to the account servers. Each part can be read with {@link readSaveFile}
+ * or {@link readLocalLevels}.
+ */
+type CloudSave = {
+  /** The compressed contents of the player's CCGameManager.dat (stats, settings, unlocks, etc.) */
+  gameManager: string;
+  /** The compressed contents of the player's CCLocalLevels.dat (levels in the editor) */
+  localLevels: string;
+  /** The game version that backed up the data */
+  gameVersion: number;
+  /** The binary version that backed up the data */
+  binaryVersion: number;
+};
+
+/**
+ * The contents of an exported session
+ * @internal
+ */
+type SessionData = Credentials & {
+  /** The version of the session format */
+  version: 1;
+};
+
+/** @internal */
+const PRIVACY_LEVELS = {
+  all: 0,
+  friends: 1,
+  none: 2
+};
+
+/**
+ * Who can do something to a player. Friends-only means only the player's friends can
+ */
+type PrivacyLevel = keyof typeof PRIVACY_LEVELS;
+
+/** @internal */
+const FRIEND_REQUEST_STATES = {
+  all: 0,
+  none: 1
+};
+
+/**
+ * Who can send friend requests to a player
+ */
+type FriendRequestState = keyof typeof FRIEND_REQUEST_STATES;
+
+/**
+ * A Geometry Dash account's settings
+ */
+type AccountSettings = {
+  /** Who can send messages to the player */
+  messages: PrivacyLevel;
+  /** Who can send friend requests to the player */
+  friendRequests: FriendRequestState;
+  /** Who can see the player's comment history */
+  commentHistory: PrivacyLevel;
+  /** The ID of the player's YouTube channel. Empty if not set */
+  youtube: string;
+  /** The player's Twitter username. Empty if not set */
+  twitter: string;
+  /** The player's Twitch username. Empty if not set */
+  twitch: string;
+};
+
+/**
+ * Changes to a player's profile. Values that are not provided are left unchanged, except for the displayed icon,
+ * which must always be provided.
+ */
+type ProfileUpdate = {
+  /** The number of stars the player has collected */
+  stars?: number;
+  /** The number of demons the player has beaten */
+  demons?: number;
+  /** The number of diamonds the player has collected */
+  diamonds?: number;
+  /** The number of coins in the single-player mode (gold coins) the player has collected */
+  coins?: number;
+  /** The number of coins in user-created levels (silver coins) the player has collected */
+  userCoins?: number;
+  /** The raw numbers of the player's icons */
+  icons?: { [type in IconCosmetic]?: number } & {
+    /** The player's raw explosion number */
+    explosion?: number;
+  };
+  /**
+   * The icon shown next to the player's name in leaderboards and searches. Required because the servers expect it
+   * with every update, but do not report the current one in the player's profile
+   */
+  displayIcon: IconCosmetic;
+  /** The raw numbers of the player's colors */
+  colors?: {
+    /** The player's primary color */
+    primary?: number;
+    /** The player's secondary color */
+    secondary?: number;
+  };
+  /** Whether the player's icons glow */
+  glow?: boolean;
+};
+
+/** @internal */
+const LEVEL_LEADERBOARD_TYPES = {
+  friends: 0,
+  top: 1,
+  week: 2
+};
+
+/**
+ * A type of level leaderboard
+ */
+type LevelLeaderboardType = keyof typeof LEVEL_LEADERBOARD_TYPES;
+
+/**
+ * Configuration for getting a level leaderboard
+ */
+type LevelLeaderboardConfig = {
+  /** The type of leaderboard to get. Defaults to top. */
+  type?: LevelLeaderboardType;
+};
+
+/**
+ * An entry in a level's leaderboard
+ */
+type LevelScore = {
+  /** The player who achieved the score */
+  user: StatlessSearchedUser;
+  /** The player's position in the leaderboard */
+  rank: number;
+  /** The percentage the player reached on the level */
+  percent: number;
+  /** The number of coins the player collected in the level */
+  coins: number;
+  /** When the score was achieved */
+  achievedAt: GDDate;
 };
 
 /**
  * A logged-in Geometry Dash player
  */
 class LoggedInUser extends User {
+  /** The player's account settings */
+  settings: Readonly<AccountSettings>;
+
   constructor(
     _creator: UserCreator,
     rawData: string,
@@ -828,6 +1125,255 @@ class LoggedInUser extends User {
     private _creds: Credentials
   ) {
     super(_creator, rawData);
+    const d = parse(rawData);
+    this.settings = {
+      messages: (Object.keys(PRIVACY_LEVELS) as PrivacyLevel[])[+d[18]] || 'all',
+      friendRequests: (Object.keys(FRIEND_REQUEST_STATES) as FriendRequestState[])[+d[19]] || 'all',
+      commentHistory: (Object.keys(PRIVACY_LEVELS) as PrivacyLevel[])[+d[50]] || 'all',
+      youtube: d[20] || '',
+      twitter: d[44] || '',
+      twitch: d[45] || ''
+    };
+  }
+
+  /**
+   * Updates the account's settings. Settings that are not provided are left unchanged.
+   * @param settings The settings to change
+   * @returns Whether the settings were updated successfully
+   * @async
+   */
+  async updateSettings(settings: Partial<AccountSettings>): Promise<boolean> {
+    const newSettings = { ...this.settings, ...settings };
+    const params = new GDRequestParams({
+      accountID: this.accountID,
+      gjp: this._creds.gjp,
+      mS: PRIVACY_LEVELS[newSettings.messages],
+      frS: FRIEND_REQUEST_STATES[newSettings.friendRequests],
+      cS: PRIVACY_LEVELS[newSettings.commentHistory],
+      yt: newSettings.youtube,
+      twitter: newSettings.twitter,
+      twitch: newSettings.twitch
+    });
+    params.authorize('account');
+    if (
+      (await this._creator._client.req('/updateGJAccSettings20.php', {
+        method: 'POST',
+        body: params
+      })) !== '1'
+    )
+      return false;
+    this.settings = newSettings;
+    const socials: Socials = {};
+    if (newSettings.youtube) socials.youtube = generateSocial(newSettings.youtube, 'youtube');
+    if (newSettings.twitter) socials.twitter = generateSocial(newSettings.twitter, 'twitter');
+    if (newSettings.twitch) socials.twitch = generateSocial(newSettings.twitch, 'twitch');
+    this.socials = socials;
+    return true;
+  }
+
+  /**
+   * Updates the player's stats and icons, as shown on their profile and in the leaderboards
+   * @param update The changes to the player's profile
+   * @returns Whether the profile was updated successfully
+   * @async
+   */
+  async updateProfile(update: ProfileUpdate): Promise<boolean> {
+    const { stats, cosmetics } = this;
+    const {
+      stars = stats.stars,
+      demons = stats.demons,
+      diamonds = stats.diamonds,
+      coins = stats.coins.normal,
+      userCoins = stats.coins.user,
+      icons = {},
+      displayIcon,
+      colors = {},
+      glow = !!cosmetics.glow
+    } = update;
+    const {
+      cube = cosmetics.cube,
+      ship = cosmetics.ship,
+      ball = cosmetics.ball,
+      ufo = cosmetics.ufo,
+      wave = cosmetics.wave,
+      robot = cosmetics.robot,
+      spider = cosmetics.spider,
+      explosion = cosmetics.explosion || 0
+    } = icons;
+    const {
+      primary = cosmetics.colors.primary.raw,
+      secondary = cosmetics.colors.secondary.raw
+    } = colors;
+    const iconType = ICONTYPEMAP.indexOf(displayIcon);
+    const icon = { cube, ship, ball, ufo, wave, robot, spider }[displayIcon];
+    const { server } = this._creator._client;
+    const chk = encrypt(
+      sha1(
+        '' +
+          this.accountID +
+          userCoins +
+          demons +
+          stars +
+          coins +
+          iconType +
+          icon +
+          diamonds +
+          cube +
+          ship +
+          ball +
+          ufo +
+          wave +
+          robot +
+          +glow +
+          spider +
+          explosion +
+          server.salts.userScore
+      ),
+      server.keys.userScore
+    );
+    const params = new GDRequestParams({
+      accountID: this.accountID,
+      gjp: this._creds.gjp,
+      userName: this._creds.userName,
+      stars,
+      demons,
+      diamonds,
+      coins,
+      userCoins,
+      iconType,
+      icon,
+      accIcon: cube,
+      accShip: ship,
+      accBall: ball,
+      accBird: ufo,
+      accDart: wave,
+      accRobot: robot,
+      accGlow: +glow,
+      accSpider: spider,
+      accExplosion: explosion,
+      color1: primary,
+      color2: secondary,
+      special: 0,
+      seed: genRS(),
+      seed2: chk
+    });
+    params.authorize('db');
+    const data = await this._creator._client.req('/updateGJUserScore22.php', {
+      method: 'POST',
+      body: params
+    });
+    if (!(+data > 0)) return false;
+    Object.assign(stats, { stars, demons, diamonds });
+    stats.coins.normal = coins;
+    stats.coins.user = userCoins;
+    Object.assign(cosmetics, {
+      cube,
+      ship,
+      ball,
+      ufo,
+      wave,
+      robot,
+      spider,
+      explosion,
+      glow: +glow
+    });
+    cosmetics.colors = { primary: userColor(primary), secondary: userColor(secondary) };
+    return true;
+  }
+
+  /**
+   * Gets the URL of the server that stores the account's backed up data
+   * @param type The type of request to get the URL for. 1 = backing up, 2 = downloading
+   * @returns The URL of the server's database; null if it could not be found
+   * @async
+   * @internal
+   */
+  private async getAccountURL(type: 1 | 2): Promise<string> {
+    const params = new GDRequestParams({
+      accountID: this.accountID,
+      type
+    });
+    params.authorize('db');
+    const data = await this._creator._client.req('/getAccountURL.php', {
+      method: 'POST',
+      body: params
+    });
+    if (!/^https?:\/\//.test(data)) return null;
+    const url = data.replace(/\/+$/, '');
+    return url.endsWith('/database') ? url : url + '/database';
+  }
+
+  /**
+   * Creates the parameters for a request to the account servers, which need the password itself
+   * @param data The other parameters for the request
+   * @returns The parameters for the request
+   * @internal
+   */
+  private accountParams(data: GDRequestData): GDRequestParams {
+    const { server } = this._creator._client;
+    const params = new GDRequestParams({
+      ...this._creds,
+      // 2.2 authenticates with the GJP2 instead
+      ...(server.version === '2.2'
+        ? {}
+        : { password: decodeGJP(this._creds.gjp, server.keys.account) }),
+      ...data
+    });
+    params.authorize('account');
+    return params;
+  }
+
+  /**
+   * Downloads the player's game data from the account servers
+   * @returns The player's backed up game data; null if it could not be downloaded
+   * @async
+   */
+  async downloadSaveData(): Promise<CloudSave> {
+    const url = await this.getAccountURL(2);
+    if (!url) return null;
+    const data = await this._creator._client.req(url + '/accounts/syncGJAccountNew.php', {
+      method: 'POST',
+      body: this.accountParams({})
+    });
+    if (!data || /^-\d+$/.test(data)) return null;
+    const [gameManager, localLevels = '', gameVersion, binaryVersion] = data.split(';');
+    return {
+      gameManager,
+      localLevels,
+      gameVersion: +gameVersion,
+      binaryVersion: +binaryVersion
+    };
+  }
+
+  /**
+   * Backs up game data to the account servers, replacing the player's current backup
+   * @param data The game data to back up, such as data from {@link LoggedInUser.downloadSaveData}
+   * @returns Whether the data was backed up successfully
+   * @async
+   */
+  async uploadSaveData(data: Pick<CloudSave, 'gameManager' | 'localLevels'>): Promise<boolean> {
+    const url = await this.getAccountURL(1);
+    if (!url) return false;
+    return (
+      (await this._creator._client.req(url + '/accounts/backupGJAccountNew.php', {
+        method: 'POST',
+        body: this.accountParams({ saveData: data.gameManager + ';' + data.localLevels })
+      })) === '1'
+    );
+  }
+
+  /**
+   * Exports the session so that it can be restored later with {@link UserCreator.restoreSession} without logging in again.
+   * Note that the GJP in the session can easily be decoded into the player's password, so the session should be encrypted
+   * or otherwise kept secret.
+   * @param cipher The cipher to encrypt the session with. If omitted, the session is not encrypted
+   * @returns The exported session
+   * @async
+   */
+  async exportSession(cipher?: SessionCipher): Promise<string> {
+    const session: SessionData = { version: 1, ...this._creds };
+    const data = JSON.stringify(session);
+    return cipher ? await cipher.encrypt(data) : data;
   }
 
   /**
@@ -867,9 +1413,10 @@ class LoggedInUser extends User {
     if (level instanceof SearchedLevel) level = level.id;
     if (!percent) percent = 0;
     const comment = gdEncodeBase64(msg);
+    const { server } = this._creator._client;
     const chk = encrypt(
-      sha1(this._creds.userName + comment + level + percent + '0' + commentSalt),
-      commentKey
+      sha1(this._creds.userName + comment + level + percent + '0' + server.salts.comment),
+      server.keys.comment
     );
     const params = new GDRequestParams({
       ...this._creds,
@@ -1010,25 +1557,69 @@ class LoggedInUser extends User {
    * Gets friend requests
    * @param num The number of friend requests to get. Default 10.
    * @param outgoing Whether to get outgoing or incoming friend requests. Defaults to incoming.
-   * @returns The array of friend requests based on the provided parameters
+   * @param page The page of friend requests to get, where each page has num friend requests. Defaults to 0.
+   * @returns A page of friend requests based on the provided parameters
    * @async
    */
-  async getFriendRequests(num?: number, outgoing?: false): Promise<IncomingFriendRequest[]>;
+  async getFriendRequests(
+    num?: number,
+    outgoing?: false,
+    page?: number
+  ): Promise<Page<IncomingFriendRequest>>;
   /**
    * Gets friend requests
    * @param num The number of friend requests to get. Default 10.
    * @param outgoing Whether to get outgoing or incoming friend requests. Defaults to incoming.
-   * @returns The array of friend requests based on the provided parameters
+   * @param page The page of friend requests to get, where each page has num friend requests. Defaults to 0.
+   * @returns A page of friend requests based on the provided parameters
    * @async
    */
-  async getFriendRequests(num: number, outgoing: true): Promise<OutgoingFriendRequest[]>;
+  async getFriendRequests(
+    num: number,
+    outgoing: true,
+    page?: number
+  ): Promise<Page<OutgoingFriendRequest>>;
   async getFriendRequests(
     num = 10,
-    outgoing = false
-  ): Promise<IncomingFriendRequest[] | OutgoingFriendRequest[]> {
-    const numToGet = Math.ceil(num / 10);
-    const reqs = [];
-    for (let page = 0; page < numToGet; page++) {
+    outgoing = false,
+    page = 0
+  ): Promise<Page<IncomingFriendRequest | OutgoingFriendRequest>> {
+    return await fetchPage(this.friendRequestPages(outgoing), page, num);
+  }
+
+  /**
+   * Iterates over friend requests, fetching each page of friend requests only when it is needed
+   * @param outgoing Whether to get outgoing or incoming friend requests. Defaults to incoming.
+   * @param startPage The page of friend requests to start from. Defaults to 0.
+   * @returns An iterator over the friend requests
+   */
+  getFriendRequestsIter(outgoing?: false, startPage?: number): PageIterator<IncomingFriendRequest>;
+  /**
+   * Iterates over friend requests, fetching each page of friend requests only when it is needed
+   * @param outgoing Whether to get outgoing or incoming friend requests. Defaults to incoming.
+   * @param startPage The page of friend requests to start from. Defaults to 0.
+   * @returns An iterator over the friend requests
+   */
+  getFriendRequestsIter(outgoing: true, startPage?: number): PageIterator<OutgoingFriendRequest>;
+  getFriendRequestsIter(
+    outgoing = false,
+    startPage = 0
+  ): PageIterator<IncomingFriendRequest | OutgoingFriendRequest> {
+    return new PageIterator(this.friendRequestPages(outgoing), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of friend requests
+   * @param outgoing Whether to get outgoing or incoming friend requests
+   * @returns The function to get each page with
+   * @internal
+   */
+  private friendRequestPages(
+    outgoing: boolean
+  ): PageFetcher<IncomingFriendRequest | OutgoingFriendRequest> {
+    return async (
+      page: number
+    ): Promise<RawPage<IncomingFriendRequest | OutgoingFriendRequest>> => {
       const params = new GDRequestParams({
         accountID: this.accountID,
         gjp: this._creds.gjp,
@@ -1041,40 +1632,77 @@ class LoggedInUser extends User {
         method: 'POST',
         body: params
       });
-      if (['-1', '-2'].includes(data)) return reqs;
-      const split = data.slice(0, data.indexOf('#')).split('|');
-      reqs.push(
-        ...split.map(str =>
-          outgoing
-            ? new OutgoingFriendRequest(this, this._creator, str)
-            : new IncomingFriendRequest(this, this._creator, str)
-        )
-      );
-      if (split.length < 10) break;
-    }
-    return reqs.slice(0, num);
+      if (['-1', '-2'].includes(data)) return null;
+      return {
+        items: data
+          .slice(0, data.indexOf('#'))
+          .split('|')
+          .map(str =>
+            outgoing
+              ? new OutgoingFriendRequest(this, this._creator, str)
+              : new IncomingFriendRequest(this, this._creator, str)
+          ),
+        info: parsePageInfo(data)
+      };
+    };
   }
 
   /**
    * Gets messages sent to or from this user
    * @param num The number of messages to get. Defaults to 10.
    * @param outgoing Whether to get outgoing or incoming messages. Defaults to incoming.
-   * @returns An array of incoming or outgoing messages
+   * @param page The page of messages to get, where each page has num messages. Defaults to 0.
+   * @returns A page of incoming or outgoing messages
    * @async
    */
-  async getMessages(num?: number, outgoing?: false): Promise<SearchedMessage<false>[]>;
+  async getMessages(
+    num?: number,
+    outgoing?: false,
+    page?: number
+  ): Promise<Page<SearchedMessage<false>>>;
   /**
    * Gets messages sent to or from this user
    * @param num The number of messages to get. Defaults to 10.
    * @param outgoing Whether to get outgoing or incoming messages. Defaults to incoming.
-   * @returns An array of incoming or outgoing messages
+   * @param page The page of messages to get, where each page has num messages. Defaults to 0.
+   * @returns A page of incoming or outgoing messages
    * @async
    */
-  async getMessages(num: number, outgoing: true): Promise<SearchedMessage<true>[]>;
-  async getMessages(num = 10, outgoing = false): Promise<SearchedMessage<boolean>[]> {
-    const numToGet = Math.ceil(num / 10);
-    const msgs: SearchedMessage<boolean>[] = [];
-    for (let page = 0; page < numToGet; page++) {
+  async getMessages(
+    num: number,
+    outgoing: true,
+    page?: number
+  ): Promise<Page<SearchedMessage<true>>>;
+  async getMessages(num = 10, outgoing = false, page = 0): Promise<Page<SearchedMessage<boolean>>> {
+    return await fetchPage(this.messagePages(outgoing), page, num);
+  }
+
+  /**
+   * Iterates over messages sent to or from this user, fetching each page of messages only when it is needed
+   * @param outgoing Whether to get outgoing or incoming messages. Defaults to incoming.
+   * @param startPage The page of messages to start from. Defaults to 0.
+   * @returns An iterator over the incoming or outgoing messages
+   */
+  getMessagesIter(outgoing?: false, startPage?: number): PageIterator<SearchedMessage<false>>;
+  /**
+   * Iterates over messages sent to or from this user, fetching each page of messages only when it is needed
+   * @param outgoing Whether to get outgoing or incoming messages. Defaults to incoming.
+   * @param startPage The page of messages to start from. Defaults to 0.
+   * @returns An iterator over the incoming or outgoing messages
+   */
+  getMessagesIter(outgoing: true, startPage?: number): PageIterator<SearchedMessage<true>>;
+  getMessagesIter(outgoing = false, startPage = 0): PageIterator<SearchedMessage<boolean>> {
+    return new PageIterator(this.messagePages(outgoing), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of messages
+   * @param outgoing Whether to get outgoing or incoming messages
+   * @returns The function to get each page with
+   * @internal
+   */
+  private messagePages(outgoing: boolean): PageFetcher<SearchedMessage<boolean>> {
+    return async (page: number): Promise<RawPage<SearchedMessage<boolean>>> => {
       const params = new GDRequestParams({
         accountID: this.accountID,
         gjp: this._creds.gjp,
@@ -1087,16 +1715,17 @@ class LoggedInUser extends User {
         method: 'POST',
         body: params
       });
-      if (['-1', '-2'].includes(data)) return msgs;
-      const split = data.slice(0, data.indexOf('#')).split('|');
-      msgs.push(
-        ...split.map(str =>
-          outgoing ? new SearchedMessage<true>(this, str) : new SearchedMessage<false>(this, str)
-        )
-      );
-      if (split.length < 10) break;
-    }
-    return msgs.slice(0, num);
+      if (['-1', '-2'].includes(data)) return null;
+      return {
+        items: data
+          .slice(0, data.indexOf('#'))
+          .split('|')
+          .map(str =>
+            outgoing ? new SearchedMessage<true>(this, str) : new SearchedMessage<false>(this, str)
+          ),
+        info: parsePageInfo(data)
+      };
+    };
   }
 
   /**
@@ -1405,6 +2034,45 @@ class LoggedInUser extends User {
     return leaderboard;
   }
 
+  /**
+   * Gets a level's leaderboard
+   * @param levelID The level (or its ID) to get the leaderboard for
+   * @param config The configuration for the leaderboard
+   * @returns The leaderboard, with position being index + 1
+   * @async
+   */
+  async getLevelLeaderboard(
+    levelID: SearchedLevel | number,
+    { type = 'top' }: LevelLeaderboardConfig = {}
+  ): Promise<LevelScore[]> {
+    if (levelID instanceof SearchedLevel) levelID = levelID.id;
+    const params = new GDRequestParams({
+      accountID: this.accountID,
+      gjp: this._creds.gjp,
+      levelID,
+      type: LEVEL_LEADERBOARD_TYPES[type]
+    });
+    params.authorize('db');
+    const data = await this._creator._client.req('/getGJLevelScores211.php', {
+      method: 'POST',
+      body: params
+    });
+    if (data === '-1' || !data) return [];
+    return data
+      .split('|')
+      .filter(str => str)
+      .map(str => {
+        const d = parse(str);
+        return {
+          user: new StatlessSearchedUser(this._creator, d),
+          rank: +d[6],
+          percent: +d[3],
+          coins: +d[13],
+          achievedAt: generateDate(d[42])
+        };
+      });
+  }
+
   /**
    * Likes a Geometry Dash entity
    * @param id The object to like. This can be a level, account comment, or level comment
@@ -1647,10 +2315,107 @@ class LoggedInUser extends User {
       })) === '1'
     );
   }
-}
 
-/** @internal */
-const ICONTYPEMAP: IconCosmetic[] = ['cube', 'ship', 'ball', 'ufo', 'wave', 'robot', 'spider'];
+  /**
+   * Uploads a level
+   * @param config The configuration for the level
+   * @param levelID The existing level (or its ID) to update. If omitted, uploads a new level
+   * @returns The ID of the uploaded level; null if the upload failed
+   * @async
+   */
+  async uploadLevel(config: LevelUploadConfig, levelID?: SearchedLevel | number): Promise<number> {
+    const {
+      name,
+      description = '',
+      song,
+      audioTrack = 0,
+      length = 0,
+      coins = 0,
+      requestedStars = 0,
+      unlisted = false,
+      visibility = unlisted ? 'unlisted' : 'public',
+      copyable = false,
+      password,
+      ldm = false,
+      twoPlayer = false,
+      original = 0
+    } = config;
+    let levelVersion = 1;
+    if (levelID instanceof SearchedLevel) {
+      if (levelID.creator.id !== this.id) return null;
+      levelVersion = levelID.version + 1;
+      levelID = levelID.id;
+    }
+    let { levelString } = config;
+    let raw: string;
+    if (levelString.includes(';')) {
+      raw = levelString;
+      levelString = await compress(levelString);
+    } else raw = await decompress(levelString);
+    const params = new GDRequestParams({
+      accountID: this.accountID,
+      gjp: this._creds.gjp,
+      userName: this._creds.userName,
+      levelID: levelID || 0,
+      levelName: name,
+      levelDesc: gdEncodeBase64(description),
+      levelVersion,
+      levelLength: +lengthToString(length) || 0,
+      audioTrack: typeof song === 'object' && !song.isCustom ? song.id - 1 : audioTrack,
+      songID: typeof song === 'object' ? (song.isCustom ? song.id : 0) : song || 0,
+      auto: 0,
+      password: copyable
+        ? password === undefined || password === null
+          ? 1
+          : '1' + password.toString().padStart(4, '0')
+        : 0,
+      original: original instanceof SearchedLevel ? original.id : original,
+      twoPlayer: +twoPlayer,
+      objects: raw.split(';').filter(str => str).length - 1,
+      coins,
+      requestedStars,
+      unlisted: LEVEL_VISIBILITIES[visibility],
+      wt: 0,
+      wt2: 0,
+      ldm: +ldm,
+      seed: genRS(),
+      seed2: generateUploadSeed(levelString, this._creator._client.server),
+      levelString
+    });
+    params.authorize('db');
+    const data = await this._creator._client.req('/uploadGJLevel21.php', {
+      method: 'POST',
+      body: params
+    });
+    if (data === '-1' || !+data) return null;
+    return +data;
+  }
+
+  /**
+   * Deletes a level from the servers
+   * @param levelID The level (or its ID) to delete
+   * @returns Whether the level deletion was successful
+   * @async
+   */
+  async deleteLevel(levelID: number | SearchedLevel): Promise<boolean> {
+    if (levelID instanceof SearchedLevel) {
+      if (levelID.creator.id !== this.id) return false;
+      levelID = levelID.id;
+    }
+    const params = new GDRequestParams({
+      accountID: this.accountID,
+      gjp: this._creds.gjp,
+      levelID
+    });
+    params.authorize('deleteLevel');
+    return (
+      (await this._creator._client.req('/deleteGJLevelUser20.php', {
+        method: 'POST',
+        body: params
+      })) === '1'
+    );
+  }
+}
 
 /**
  * Cosmetics of a user found by a search
@@ -1757,19 +2522,35 @@ class StatlessSearchedUser {
   /**
    * Get the comments posted to this account's page
    * @param num The maximum number of comments to get
-   * @returns An array of this user's profile comments
+   * @param page The page of comments to get, where each page has num comments. Defaults to 0.
+   * @returns A page of this user's profile comments
    * @async
    */
-  async getAccountComments(num: number): Promise<AccountComment<this>[]>;
-  async getAccountComments(num?: number): Promise<AccountComment<this> | AccountComment<this>[]> {
-    let singleReturn = false;
-    if (!num) {
-      num = 1;
-      singleReturn = true;
-    }
-    const numToGet = Math.ceil(num / 10);
-    const comments: AccountComment<this>[] = [];
-    for (let page = 0; page < numToGet; page++) {
+  async getAccountComments(num: number, page?: number): Promise<Page<AccountComment<this>>>;
+  async getAccountComments(
+    num?: number,
+    page = 0
+  ): Promise<AccountComment<this> | Page<AccountComment<this>>> {
+    if (!num) return (await this.getAccountCommentsIter().next()).value || null;
+    return await fetchPage(this.accountCommentPages(), page, num);
+  }
+
+  /**
+   * Iterates over the comments posted to this account's page, fetching each page of comments only when it is needed
+   * @param startPage The page of comments to start from. Defaults to 0.
+   * @returns An iterator over this user's profile comments
+   */
+  getAccountCommentsIter(startPage = 0): PageIterator<AccountComment<this>> {
+    return new PageIterator(this.accountCommentPages(), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of this account's profile comments
+   * @returns The function to get each page with
+   * @internal
+   */
+  private accountCommentPages(): PageFetcher<AccountComment<this>> {
+    return async (page: number): Promise<RawPage<AccountComment<this>>> => {
       const params = new GDRequestParams({
         accountID: this.accountID,
         page,
@@ -1780,12 +2561,15 @@ class StatlessSearchedUser {
         method: 'POST',
         body: params
       });
-      if (data === '-1') return singleReturn ? null : [];
-      const split = data.slice(0, data.indexOf('#')).split('|');
-      comments.push(...split.map(str => new AccountComment(this, str)));
-      if (split.length < 10) break;
-    }
-    return singleReturn ? comments[0] || null : comments.slice(0, num);
+      if (data === '-1') return null;
+      return {
+        items: data
+          .slice(0, data.indexOf('#'))
+          .split('|')
+          .map(str => new AccountComment(this, str)),
+        info: parsePageInfo(data)
+      };
+    };
   }
 
   /**
@@ -1799,40 +2583,69 @@ class StatlessSearchedUser {
    * Gets the most recent or most liked level comments by the user
    * @param byLikes Whether to sort by likes or not. Defaults to false
    * @param num The number of comments to get
-   * @returns An array of the most recent or most liked comments made by this user
+   * @param page The page of comments to get, where each page has num comments. Defaults to 0.
+   * @returns A page of the most recent or most liked comments made by this user
    * @async
    */
-  async getComments(byLikes: boolean, num: number): Promise<LevelComment<this>[]>;
+  async getComments(
+    byLikes: boolean,
+    num: number,
+    page?: number
+  ): Promise<Page<LevelComment<this>>>;
   async getComments(
     byLikes = false,
-    num?: number
-  ): Promise<LevelComment<this> | LevelComment<this>[]> {
-    let singleReturn = false;
-    if (!num) {
-      num = 1;
-      singleReturn = true;
-    }
-    const params = new GDRequestParams({
-      count: num,
-      userID: this.id,
-      mode: +byLikes,
-      page: 0,
-      total: 0
-    });
-    params.authorize('db');
-    const data = await this._creator._client.req('/getGJCommentHistory.php', {
-      method: 'POST',
-      body: params
-    });
-    if (data === '-1') return singleReturn ? null : [];
-    const comments = data
-      .slice(0, data.indexOf('#'))
-      .split('|')
-      .map(str => {
-        const comment = str.slice(0, str.indexOf(':'));
-        return new LevelComment(this._creator, this, comment);
+    num?: number,
+    page = 0
+  ): Promise<LevelComment<this> | Page<LevelComment<this>>> {
+    const comments = await fetchPage(
+      this.commentPages(byLikes, num || 1),
+      page,
+      num || 1,
+      num || 1
+    );
+    return num ? comments : comments[0] || null;
+  }
+
+  /**
+   * Iterates over the level comments by the user, fetching each page of comments only when it is needed
+   * @param byLikes Whether to sort by likes or not. Defaults to false
+   * @param startPage The page of comments to start from. Defaults to 0.
+   * @returns An iterator over the most recent or most liked comments made by this user
+   */
+  getCommentsIter(byLikes = false, startPage = 0): PageIterator<LevelComment<this>> {
+    return new PageIterator(this.commentPages(byLikes, 10), startPage);
+  }
+
+  /**
+   * Creates a function to get pages of the level comments by the user
+   * @param byLikes Whether to sort by likes or not
+   * @param count The number of comments on each page
+   * @returns The function to get each page with
+   * @internal
+   */
+  private commentPages(byLikes: boolean, count: number): PageFetcher<LevelComment<this>> {
+    return async (page: number): Promise<RawPage<LevelComment<this>>> => {
+      const params = new GDRequestParams({
+        count,
+        userID: this.id,
+        mode: +byLikes,
+        page,
+        total: 0
+      });
+      params.authorize('db');
+      const data = await this._creator._client.req('/getGJCommentHistory.php', {
+        method: 'POST',
+        body: params
       });
-    return singleReturn ? comments[0] : comments;
+      if (data === '-1') return null;
+      return {
+        items: data
+          .slice(0, data.indexOf('#'))
+          .split('|')
+          .map(str => new LevelComment(this._creator, this, str.slice(0, str.indexOf(':')))),
+        info: parsePageInfo(data)
+      };
+    };
   }
 
   /**
@@ -2035,11 +2848,11 @@ class UserCreator extends Creator {
    * Gets a user leaderboard
    * @param type The type of leaderboard to get
    * @param num The number of entries to get.
-   * @returns The leaderboard, with position being index + 1
+   * @returns The leaderboard, with position being index + 1. The servers only return one page of entries
    * @async
    */
-  async getLeaderboard(creators: boolean, num: number): Promise<SearchedUser[]>;
-  async getLeaderboard(creators = false, num?: number): Promise<SearchedUser | SearchedUser[]> {
+  async getLeaderboard(creators: boolean, num: number): Promise<Page<SearchedUser>>;
+  async getLeaderboard(creators = false, num?: number): Promise<SearchedUser | Page<SearchedUser>> {
     let singleReturn = false;
     if (!num) {
       num = 1;
@@ -2056,26 +2869,35 @@ class UserCreator extends Creator {
       method: 'POST',
       body: params
     });
-    if (data === '-1') return singleReturn ? null : [];
-    const leaders = data
-      .slice(0, data.indexOf('#'))
-      .split('|')
-      .map(str => new SearchedUser(this, str));
-    return singleReturn ? leaders[0] : leaders.slice(0, num);
+    const leaders = (data === '-1' ? [] : data.slice(0, data.indexOf('#')).split('|'))
+      .map(str => new SearchedUser(this, str))
+      .slice(0, num);
+    if (singleReturn) return leaders[0] || null;
+    return await fetchPage(
+      async page =>
+        page ? null : { items: leaders, info: { total: leaders.length, offset: 0, pageSize: num } },
+      0,
+      num,
+      num
+    );
   }
 
   /**
    * Log in to a Geometry Dash account
    * @param userCreds The username and password to log in with
-   * @throws {TypeError} if credentials are invalid
+   * @throws {InvalidCredentialsError} if credentials are invalid
+   * @throws {AccountDisabledError} if the account has been disabled
    * @returns The logged in user associated with the provided credentials
    * @async
    */
   async login(userCreds: UserCredentials): Promise<LoggedInUser> {
+    const { server } = this._client;
+    const gjp2 = generateGJP2(userCreds.password, server.salts.gjp2);
     const params = new GDRequestParams();
     params.insertParams({
       userName: userCreds.username,
-      password: userCreds.password,
+      // 2.2 servers no longer accept the plain password
+      ...(server.version === '2.2' ? { gjp2 } : { password: userCreds.password }),
       udid
     });
     params.authorize('account');
@@ -2083,36 +2905,99 @@ class UserCreator extends Creator {
       method: 'POST',
       body: params
     });
-    if (data === '-1') throw new TypeError('could not log in because the credentials were invalid');
+    const err = getError('/accounts/loginGJAccount.php', data);
+    if (err) throw err;
     // TODO: What to do with userID (index 1)?
     const [accountIDStr] = data.split(',');
     return this.authorize({
       userName: userCreds.username,
       accountID: +accountIDStr,
-      gjp: encrypt(userCreds.password, accountKey)
+      gjp: generateGJP(userCreds.password, server.keys.account),
+      gjp2
     });
   }
 
   /**
    * Log in to a Geometry Dash account using preprocessed credentials
    * @param creds The credentials to log in with
-   * @throws {TypeError} if credentials are invalid
+   * @throws {InvalidCredentialsError} if credentials are invalid
    * @returns The logged in user associated with the provided credentials
    * @async
    */
   async authorize(creds: Credentials): Promise<LoggedInUser> {
+    const { server } = this._client;
+    if (!creds.gjp2)
+      creds = {
+        ...creds,
+        gjp2: generateGJP2(decodeGJP(creds.gjp, server.keys.account), server.salts.gjp2)
+      };
     const infoParams = new GDRequestParams({
       targetAccountID: creds.accountID
     });
     infoParams.authorize('db');
-    const infoData = await this._client.req('/getGJUserInfo20.php', {
-      method: 'POST',
-      body: infoParams
-    });
+    let infoData: string;
+    try {
+      infoData = await this._client.req('/getGJUserInfo20.php', {
+        method: 'POST',
+        body: infoParams
+      });
+    } catch (e) {
+      // In strict mode, a missing account is reported as not found
+      if (!(e instanceof NotFoundError)) throw e;
+      infoData = '-1';
+    }
     if (infoData === '-1')
-      throw new TypeError('could not log in because the credentials were invalid');
+      throw new InvalidCredentialsError(
+        'could not log in because the credentials were invalid',
+        infoData,
+        '/getGJUserInfo20.php'
+      );
     return new LoggedInUser(this, infoData, creds);
   }
+
+  /**
+   * Restores a session exported with {@link LoggedInUser.exportSession}, checking that its credentials are still valid
+   * @param session The exported session
+   * @param cipher The cipher the session was encrypted with, if any
+   * @throws {InvalidCredentialsError} if the session is malformed or its credentials are no longer valid. Errors
+   *         thrown by the cipher are thrown as they are
+   * @returns The logged in user the session belongs to
+   * @async
+   */
+  async restoreSession(session: string, cipher?: SessionCipher): Promise<LoggedInUser> {
+    // Errors from the cipher are passed on, since they do not mean that the session is invalid
+    const decrypted = cipher ? await cipher.decrypt(session) : session;
+    let data: SessionData;
+    try {
+      data = JSON.parse(decrypted);
+    } catch (e) {
+      data = null;
+    }
+    if (!data || data.version !== 1 || !data.userName || !data.accountID || !data.gjp)
+      throw new InvalidCredentialsError('could not restore the session because it is malformed');
+    const { userName, accountID, gjp, gjp2 } = data;
+    const user = await this.authorize({ userName, accountID, gjp, gjp2 });
+    // Only requests that require the password fail for outdated credentials
+    const params = new GDRequestParams({ accountID, gjp, page: 0, total: 0, getSent: 0 });
+    params.authorize('db');
+    let checkData: string;
+    try {
+      checkData = await this._client.req('/getGJMessages20.php', {
+        method: 'POST',
+        body: params
+      });
+    } catch (e) {
+      // In strict mode, an empty inbox is reported as not found
+      if (!(e instanceof NotFoundError)) throw e;
+    }
+    if (checkData === '-1')
+      throw new InvalidCredentialsError(
+        'could not restore the session because the credentials are no longer valid',
+        checkData,
+        '/getGJMessages20.php'
+      );
+    return user;
+  }
 }
 
 export {
@@ -2130,6 +3015,17 @@ export {
   IncomingFriendRequest,
   OutgoingFriendRequest,
   ConvertibleToAccountID,
+  LevelLeaderboardType,
+  LevelLeaderboardConfig,
+  LevelScore,
+  LevelVisibility,
+  LevelUploadConfig,
+  PrivacyLevel,
+  FriendRequestState,
+  AccountSettings,
+  ProfileUpdate,
+  SessionCipher,
+  CloudSave,
   MessageUser,
   SearchedMessage,
   Message,
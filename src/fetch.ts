@@ -4,8 +4,18 @@
  * @packageDocumentation
  */
 
-if (typeof fetch === 'undefined')
-  throw new Error(
-    "critical: gd.js cannot function without the fetch API, and it doesn't seem to exist in the current environment. Try polyfilling it with whatwg-fetch."
-  );
-export default fetch.bind(window);
+/**
+ * Gets the fetch implementation for the environment
+ * @returns The fetch implementation
+ * @throws {Error} if the environment has no fetch API
+ * @internal
+ */
+const getFetch = (): typeof fetch => {
+  if (typeof fetch === 'undefined')
+    throw new Error(
+      "critical: gd.js cannot function without the fetch API, and it doesn't seem to exist in the current environment. Try polyfilling it with whatwg-fetch."
+    );
+  // Calling fetch directly avoids binding it to a global object, which older browsers have no standard name for
+  return (input, init): Promise<Response> => fetch(input, init);
+};
+export default getFetch;
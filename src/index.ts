@@ -1,6 +1,47 @@
-import { isServer, GDRequestParams } from './util';
-import { UserCreator, LevelCreator } from './entities';
-import fetch from './node-fetch';
+import {
+  isServer,
+  GDRequestParams,
+  getError,
+  GDError,
+  NotFoundError,
+  InvalidCredentialsError,
+  AccountDisabledError,
+  RateLimitedError,
+  ServerError,
+  RequestScheduler,
+  SchedulerConfig,
+  RequestLimits,
+  isIdempotent,
+  sleep,
+  ResponseCache,
+  CacheConfig,
+  CacheStore,
+  MemoryCacheStore,
+  Transport,
+  TransportRequest,
+  fetchTransport,
+  withTimeout,
+  resolveServer,
+  ServerProfile,
+  ServerConfig,
+  ServerPreset,
+  ProtocolVersion,
+  ServerSecrets,
+  ServerKeys,
+  ServerSalts,
+  SERVER_PRESETS,
+  EventEmitter,
+  ClientEvents,
+  Middleware,
+  RequestContext,
+  RequestEvent,
+  ResponseEvent,
+  ErrorEvent,
+  RateLimitedEvent,
+  Listener
+} from './util';
+import { UserCreator, LevelCreator, PackCreator, SongCreator } from './entities';
+import getFetch from './node-fetch';
 
 /**
  * Configuration for the GD Client
@@ -8,12 +49,52 @@ import fetch from './node-fetch';
 type Config = {
   /** The level of logging. 2 = verbose, 1 = warnings, 0 = off. Defaults to 1. */
   logLevel?: 0 | 1 | 2;
-  /** The URL for the database. Defaults to http://www.boomlings.com/database. */
+  /** The URL for the database. Defaults to the URL of the {@link Config.server} (http://www.boomlings.com/database for the official servers). */
   dbURL?: string;
+  /**
+   * The server to connect to, as the name of a bundled preset or changes to one. Use this to connect to a private
+   * server (GDPS) that uses different secrets, keys, versions or endpoint names. Defaults to the official servers.
+   */
+  server?: ServerConfig | ServerPreset;
+  /**
+   * The version of the protocol to use, overriding the version in the {@link Config.server} profile.
+   * Use 2.2 for servers that only accept GJP2 authentication. Defaults to 2.1.
+   *
+   * This changes how credentials are sent and the game version sent with requests. 2.2 also needs the `binaryVersion`
+   * option of {@link Config.server}, since it changes with each 2.2 update. Endpoint names are the same in both
+   * versions; use the `endpoints` option of {@link Config.server} if the server renamed them.
+   */
+  version?: ProtocolVersion;
   /** The URL to use as a CORS proxy when making requests from a browser. Note it should have a trailing slash. */
   corsURL?: string;
-  /** The fetch polyfill to use. Only necessary when fetch is not supported in the target environment. Defaults to node-fetch (if installed) */
+  /**
+   * The fetch polyfill to use. Only necessary when fetch is not supported in the target environment.
+   * Defaults to the global fetch, or node-fetch (if installed) when there is none.
+   */
   fetch?: typeof fetch;
+  /**
+   * The transport to send requests with. Use this to send requests with your own HTTP client or to fake responses in tests.
+   * Defaults to a transport that uses {@link Config.fetch}.
+   */
+  transport?: Transport;
+  /** Extra headers to send with every request */
+  headers?: { [name: string]: string };
+  /** The maximum number of milliseconds a request may take before it is aborted. Defaults to 0 (no timeout). */
+  timeout?: number;
+  /** The HTTP agent to send requests through in Node.js. Use an agent from a package like `https-proxy-agent` to send requests through a proxy. */
+  agent?: unknown;
+  /**
+   * Whether to throw a {@link GDError} when a request fails instead of returning null, false or no results.
+   * Defaults to false.
+   */
+  strict?: boolean;
+  /** How to limit and retry requests to the servers. By default, requests are sent immediately and never retried. */
+  scheduler?: SchedulerConfig;
+  /**
+   * How to cache responses from endpoints that only fetch data. Pass `{}` to use the defaults.
+   * By default, responses are not cached.
+   */
+  cache?: CacheConfig;
 };
 
 /**
@@ -24,23 +105,31 @@ type RequestConfig = {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   /** The parameters for the request */
   body?: GDRequestParams;
+  /** A signal that aborts the request when triggered */
+  signal?: AbortSignal;
 };
 
 /** @internal */
 const DEFAULT_CONFIG: Config = {
   logLevel: 1,
-  dbURL: 'http://www.boomlings.com/database',
-  fetch
+  strict: false,
+  timeout: 0
 };
 
 /**
  * Client for Geometry Dash requests.
  */
-class Client {
+class Client extends EventEmitter<ClientEvents> {
   /** The database of Geometry Dash users */
   users: UserCreator;
   /** The database of Geometry Dash levels */
   levels: LevelCreator;
+  /** The database of Geometry Dash map packs and gauntlets */
+  packs: PackCreator;
+  /** The database of Newgrounds songs used in Geometry Dash */
+  songs: SongCreator;
+  /** The profile of the server the client connects to */
+  server: ServerProfile;
 
   /**
    * The configuration for the Geometry Dash client
@@ -48,22 +137,66 @@ class Client {
    */
   private config: Config;
 
+  /**
+   * The scheduler for requests to the servers
+   * @internal
+   */
+  private scheduler: RequestScheduler;
+
+  /**
+   * The cache for responses from the servers. Null if caching is disabled
+   * @internal
+   */
+  private cache: ResponseCache;
+
+  /**
+   * The transport used to send requests
+   * @internal
+   */
+  private transport: Transport;
+
+  /**
+   * The middleware that requests pass through, in the order they were added
+   * @internal
+   */
+  private middleware: Middleware[] = [];
+
   /**
    * Creates a client for Geometry Dash requests.
    * @param config The configuration for the client.
    */
   constructor(config?: Config) {
+    super();
     if (!isServer && !config.corsURL) {
       throw new Error(
         'critical: gd.js cannot function in the browser without a CORS proxy. Please provide a corsURL in the options to fix this issue.'
       );
     }
+    this.server = resolveServer((config || {}).server, (config || {}).version);
     this.config = {
       ...DEFAULT_CONFIG,
+      dbURL: this.server.dbURL,
       ...config
     };
+    if (!this.config.dbURL) {
+      throw new Error(
+        'critical: the server profile has no database URL. Please provide a dbURL in the options to fix this issue.'
+      );
+    }
+    if (!this.server.binaryVersion) {
+      throw new Error(
+        'critical: the 2.2 protocol has no default binary version. Please provide a binaryVersion in the server options to fix this issue.'
+      );
+    }
+    this.scheduler = new RequestScheduler(this.config.scheduler);
+    this.transport =
+      this.config.transport ||
+      fetchTransport(this.config.fetch ? (): typeof fetch => this.config.fetch : getFetch);
+    this.cache = this.config.cache ? new ResponseCache(this.config.cache) : null;
     this.users = new UserCreator(this);
     this.levels = new LevelCreator(this);
+    this.packs = new PackCreator(this);
+    this.songs = new SongCreator(this);
   }
 
   /**
@@ -82,33 +215,129 @@ class Client {
    * @param url The path to request to (based at the {@link Config.dbURL})
    * @param conf The request configuration
    * @param returnRaw Whether to parse the response into a string or return it raw
+   * @throws {GDError} if the request failed and the client is in strict mode
    * @return The string containing the Geometry Dash server's response
    */
   async req(url: string, conf: RequestConfig, returnRaw?: false): Promise<string>;
   async req(
     url: string,
-    { method = 'GET', body = null }: RequestConfig = {},
+    { method = 'GET', body = null, signal }: RequestConfig = {},
     returnRaw = false
+  ): Promise<string | Response> {
+    if (returnRaw) return await this.send({ endpoint: url, method, params: body }, signal, true);
+    const ctx: RequestContext = { endpoint: url, method, params: body };
+    const run = (i: number): Promise<string> =>
+      i < this.middleware.length
+        ? this.middleware[i](ctx, () => run(i + 1))
+        : (this.send(ctx, signal, false) as Promise<string>);
+    return await run(0);
+  }
+
+  /**
+   * Adds a middleware that every request (except for raw requests) passes through. Middleware runs in the order
+   * it was added.
+   * @param middleware The middleware to add
+   * @returns The client, for chaining
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Sends a request to a Geometry Dash server, using the cache and retrying as configured
+   * @param ctx The request to send
+   * @param signal A signal that aborts the request when triggered
+   * @param returnRaw Whether to parse the response into a string or return it raw
+   * @returns The response from the server
+   * @internal
+   */
+  private async send(
+    { endpoint: url, method, params: body }: RequestContext,
+    signal: AbortSignal,
+    returnRaw: boolean
   ): Promise<string | Response> {
     let sentBody = null;
     if (body) {
-      sentBody = body.resolve();
+      sentBody = body.resolve(this.server);
+    }
+    const cacheKey =
+      this.cache && !returnRaw
+        ? this.cache.keyFor(url, body, this.server, this.config.dbURL)
+        : null;
+    if (cacheKey) {
+      const cached = await this.cache.get(cacheKey);
+      if (typeof cached === 'string') {
+        this.verbose(`Using cached response for ${url}: ${cached}`);
+        return cached;
+      }
     }
-    const resp = await fetch(
-      (isServer ? '' : this.config.corsURL) +
-        (url.startsWith('http') ? '' : this.config.dbURL) +
-        url,
-      {
-        method,
-        headers: { 'User-Agent': '' },
-        referrerPolicy: 'no-referrer',
-        body: sentBody
+    const { retries = 0 } = this.config.scheduler || {};
+    const retryable = isIdempotent(url);
+    // With credentials, -1 usually means they were rejected, which retrying cannot fix
+    const authenticated = !!sentBody && (sentBody.has('gjp') || sentBody.has('gjp2'));
+    for (let attempt = 0; ; attempt++) {
+      const event: RequestEvent = { endpoint: url, method, params: body, attempt };
+      let resp: Response;
+      let data: string;
+      let sentAt: number;
+      try {
+        [resp, data] = await this.scheduler.schedule(url, () =>
+          withTimeout(this.config.timeout, signal, async signal => {
+            this.emit('request', event);
+            sentAt = Date.now();
+            const resp = await this.transport({
+              url:
+                (isServer ? '' : this.config.corsURL) +
+                (url.startsWith('http') ? '' : this.config.dbURL) +
+                (this.server.endpoints[url] || url),
+              method,
+              headers: { 'User-Agent': '', ...this.config.headers },
+              body: sentBody,
+              signal,
+              agent: this.config.agent
+            });
+            return [resp, returnRaw ? null : await resp.text()] as [Response, string];
+          })
+        );
+      } catch (e) {
+        this.emit('error', { ...event, error: e });
+        if (!retryable || attempt >= retries || (signal && signal.aborted)) throw e;
+        this.warn(`Request to ${url} failed (${e}), retrying`);
+        await sleep(this.scheduler.backoff(attempt));
+        continue;
       }
-    );
-    if (returnRaw) return resp;
-    const data = await resp.text();
-    this.verbose(`Made a ${method} request to ${url}, response: ${data}`);
-    return data;
+      this.emit('response', {
+        ...event,
+        status: resp.status,
+        response: data,
+        latency: Date.now() - sentAt
+      });
+      if (returnRaw) return resp;
+      this.verbose(`Made a ${method} request to ${url}, response: ${data}`);
+      const err = getError(url, data, resp.status);
+      const retryAfter = +resp.headers.get('Retry-After') * 1000 || undefined;
+      if (err) this.emit('error', { ...event, error: err });
+      if (err instanceof RateLimitedError)
+        this.emit('rateLimited', { ...event, error: err, retryAfter });
+      if (
+        attempt < retries &&
+        (err instanceof RateLimitedError ||
+          (retryable && (err instanceof ServerError || (data === '-1' && !authenticated))))
+      ) {
+        this.warn(`Request to ${url} failed (${err.message}), retrying`);
+        await sleep(Math.max(retryAfter || 0, this.scheduler.backoff(attempt)));
+        continue;
+      }
+      if (this.config.strict && err) throw err;
+      if (cacheKey && !err) await this.cache.set(url, cacheKey, data);
+      return data;
+    }
+  }
+
+  /** @internal */
+  protected onListenerError(event: keyof ClientEvents, error: Error): void {
+    this.warn(`A listener for the ${event} event threw an error: ${error}`);
   }
 
   /** @internal */
@@ -127,6 +356,39 @@ class Client {
   }
 }
 
-export { Config, RequestConfig, GDRequestParams };
+export {
+  Config,
+  RequestConfig,
+  SchedulerConfig,
+  RequestLimits,
+  CacheConfig,
+  CacheStore,
+  MemoryCacheStore,
+  Transport,
+  TransportRequest,
+  ServerProfile,
+  ServerConfig,
+  ServerPreset,
+  ProtocolVersion,
+  ServerSecrets,
+  ServerKeys,
+  ServerSalts,
+  SERVER_PRESETS,
+  ClientEvents,
+  Middleware,
+  RequestContext,
+  RequestEvent,
+  ResponseEvent,
+  ErrorEvent,
+  RateLimitedEvent,
+  Listener,
+  GDRequestParams,
+  GDError,
+  NotFoundError,
+  InvalidCredentialsError,
+  AccountDisabledError,
+  RateLimitedError,
+  ServerError
+};
 export * from './entities';
 export default Client;
@@ -5,14 +5,28 @@
  */
 
 /** @internal */
-let fetch = global.fetch;
-if (!fetch) {
-  try {
-    fetch = eval('require')('node-fetch');
-  } catch (e) {
-    throw new Error(
-      'critical: gd.js cannot function without a fetch polyfill; node-fetch not installed and no fetch polyfill was provided. Please install node-fetch to resolve the issue.'
-    );
+let fetch: typeof globalThis.fetch;
+
+/**
+ * Gets the fetch implementation for the environment, falling back to node-fetch if there is no global fetch
+ * @returns The fetch implementation
+ * @throws {Error} if there is no global fetch and node-fetch is not installed
+ * @internal
+ */
+const getFetch = (): typeof fetch => {
+  if (!fetch) {
+    if (typeof globalThis !== 'undefined' && globalThis.fetch)
+      fetch = globalThis.fetch.bind(globalThis);
+    else {
+      try {
+        fetch = eval('require')('node-fetch');
+      } catch (e) {
+        throw new Error(
+          'critical: gd.js cannot function without a fetch polyfill; node-fetch not installed and no fetch polyfill was provided. Please install node-fetch to resolve the issue.'
+        );
+      }
+    }
   }
-}
-export default fetch.bind(global);
+  return fetch;
+};
+export default getFetch;
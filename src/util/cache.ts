@@ -0,0 +1,161 @@
+/**
+ * Response caching
+ * @internal
+ * @packageDocumentation
+ */
+
+import GDRequestParams from './param';
+import { isIdempotent } from './scheduler';
+import { ServerProfile } from './server';
+
+/**
+ * Storage for cached responses. Implement this to keep the cache somewhere other than memory, such as in a file
+ */
+export interface CacheStore {
+  /**
+   * Gets a cached response
+   * @param key The key of the response
+   * @returns The cached response; undefined if it is not cached or has expired
+   */
+  get(key: string): string | undefined | Promise<string | undefined>;
+  /**
+   * Caches a response
+   * @param key The key of the response
+   * @param value The response
+   * @param ttl The number of milliseconds the response should be cached for
+   */
+  set(key: string, value: string, ttl: number): void | Promise<void>;
+}
+
+/**
+ * Configuration for caching responses from the Geometry Dash servers
+ */
+export type CacheConfig = {
+  /** The number of milliseconds to cache responses for. Defaults to 60000 (one minute). */
+  ttl?: number;
+  /** The number of milliseconds to cache responses for specific endpoints (e.g. `/getGJLevels21.php`). Use 0 to disable caching for an endpoint. */
+  endpoints?: { [endpoint: string]: number };
+  /** Where to store the cached responses. Defaults to an in-memory store */
+  store?: CacheStore;
+  /** The maximum number of responses to keep in the default in-memory store. Defaults to 1000. */
+  maxSize?: number;
+  /** Whether to also cache responses to requests made with account credentials (GJP). Defaults to false. */
+  authenticated?: boolean;
+};
+
+/**
+ * Parameters that change on every request and are therefore left out of the cache key
+ * @internal
+ */
+const VOLATILE_PARAMS = ['rs', 'chk'];
+
+/**
+ * An in-memory cache that removes the least recently used responses once it is full
+ */
+export class MemoryCacheStore implements CacheStore {
+  /** @internal */
+  private _entries: Map<string, { value: string; expires: number }> = new Map();
+
+  /**
+   * Creates an in-memory cache
+   * @param maxSize The maximum number of responses to keep. Defaults to 1000.
+   */
+  constructor(
+    /** The maximum number of responses to keep */
+    public maxSize = 1000
+  ) {}
+
+  get(key: string): string {
+    const entry = this._entries.get(key);
+    if (!entry) return undefined;
+    this._entries.delete(key);
+    if (entry.expires < Date.now()) return undefined;
+    // Re-inserting marks the entry as the most recently used
+    this._entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttl: number): void {
+    this._entries.delete(key);
+    this._entries.set(key, { value, expires: Date.now() + ttl });
+    while (this._entries.size > this.maxSize)
+      this._entries.delete(this._entries.keys().next().value);
+  }
+}
+
+/**
+ * Caches responses from read-only endpoints
+ * @internal
+ */
+export class ResponseCache {
+  /** @internal */
+  private store: CacheStore;
+
+  /**
+   * Creates a response cache
+   * @param config The configuration for the cache
+   * @internal
+   */
+  constructor(
+    /** @internal */
+    private config: CacheConfig = {}
+  ) {
+    this.store = config.store || new MemoryCacheStore(config.maxSize);
+  }
+
+  /**
+   * Gets the cache key for a request. The key includes the server the request is sent to, so clients that connect
+   * to different servers can share a store.
+   * @param endpoint The endpoint of the request
+   * @param params The parameters of the request
+   * @param server The profile of the server the request is sent to
+   * @param dbURL The URL of the server's database
+   * @returns The cache key; null if the request should not be cached
+   */
+  keyFor(endpoint: string, params: GDRequestParams, server: ServerProfile, dbURL: string): string {
+    if (!isIdempotent(endpoint) || this.ttlFor(endpoint) <= 0) return null;
+    const resolved = params ? params.resolve(server) : null;
+    if (resolved && (resolved.has('gjp') || resolved.has('gjp2')) && !this.config.authenticated)
+      return null;
+    const pairs: string[] = [];
+    if (resolved)
+      resolved.forEach((value, key) => {
+        if (VOLATILE_PARAMS.indexOf(key) === -1) pairs.push(key + '=' + value);
+      });
+    const url =
+      (endpoint.startsWith('http') ? '' : dbURL) + (server.endpoints[endpoint] || endpoint);
+    return url + '?' + pairs.sort().join('&');
+  }
+
+  /**
+   * Gets a cached response
+   * @param key The cache key of the request
+   * @returns The cached response; undefined if there is none
+   * @async
+   */
+  async get(key: string): Promise<string> {
+    return await this.store.get(key);
+  }
+
+  /**
+   * Caches a response
+   * @param endpoint The endpoint of the request
+   * @param key The cache key of the request
+   * @param value The response
+   * @async
+   */
+  async set(endpoint: string, key: string, value: string): Promise<void> {
+    await this.store.set(key, value, this.ttlFor(endpoint));
+  }
+
+  /**
+   * Gets how long responses from an endpoint should be cached for
+   * @param endpoint The endpoint to get the TTL for
+   * @returns The number of milliseconds to cache responses for
+   * @internal
+   */
+  private ttlFor(endpoint: string): number {
+    const { ttl = 60000, endpoints = {} } = this.config;
+    return endpoint in endpoints ? endpoints[endpoint] : ttl;
+  }
+}
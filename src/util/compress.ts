@@ -1,9 +1,10 @@
 /**
- * Decompress level data
+ * Compress and decompress level data
  * @internal
  * @packageDocumentation
  */
-import { decompress as dcmp, b64ToU8, u8ToStr } from './flate';
+import { decompress as dcmp, compress as cmp, b64ToU8, u8ToStr, strToU8, u8ToB64 } from './flate';
+import { cipherBytes, saveKey } from './crypto';
 
 /**
  * Decompresses data of an arbitrary type from the Geometry Dash servers
@@ -13,4 +14,36 @@ import { decompress as dcmp, b64ToU8, u8ToStr } from './flate';
  */
 const decompress = (data: string): Promise<string> => dcmp(b64ToU8(data)).then(u8ToStr);
 
-export { decompress };
+/**
+ * Compresses data into the format used by the Geometry Dash servers
+ * @param data The source string data to compress
+ * @returns The Base64, compressed data
+ * @internal
+ */
+const compress = (data: string): Promise<string> => cmp(strToU8(data)).then(u8ToB64);
+
+/**
+ * Decodes the contents of a Geometry Dash savefile (such as CCLocalLevels.dat) into its XML
+ * @param data The raw contents of the savefile
+ * @returns The XML data in the savefile
+ * @internal
+ */
+const decodeSaveData = async (data: Uint8Array | string): Promise<string> => {
+  const u8 = typeof data === 'string' ? strToU8(data) : data;
+  // Already decoded savefiles start with <?xml
+  if (u8[0] === 60 && u8[1] === 63) return u8ToStr(u8);
+  // Data backed up to the account servers is not XOR-encrypted, so it starts with H4sI (a Base64 gzip header)
+  if (u8ToStr(u8.subarray(0, 4)) === 'H4sI') return await decompress(u8ToStr(u8));
+  return await decompress(u8ToStr(cipherBytes(u8, saveKey)).replace(/[\0\s]/g, ''));
+};
+
+/**
+ * Encodes XML into the format used by Geometry Dash savefiles
+ * @param data The XML data to encode
+ * @returns The raw contents of the savefile
+ * @internal
+ */
+const encodeSaveData = async (data: string): Promise<Uint8Array> =>
+  cipherBytes(strToU8(await compress(data)), saveKey);
+
+export { decompress, compress, decodeSaveData, encodeSaveData };
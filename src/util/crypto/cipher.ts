@@ -16,6 +16,18 @@ const cipher = (str: string, key: string): string =>
   String.fromCodePoint(
     ...str.split('').map((char, i) => char.charCodeAt(0) ^ key.charCodeAt(i % key.length))
   );
+/**
+ * Ciphers or deciphers binary data with single-byte XOR encryption.
+ * @param u8 The data to (de)cipher
+ * @param key The byte to XOR with
+ * @returns The ciphered data
+ * @internal
+ */
+const cipherBytes = (u8: Uint8Array, key: number): Uint8Array => {
+  const out = new Uint8Array(u8.length);
+  for (let i = 0; i < u8.length; ++i) out[i] = u8[i] ^ key;
+  return out;
+};
 /**
  * Encodes a string in a format compatible with the Geometry Dash servers.
  * @param str The string to encrypt
@@ -32,4 +44,4 @@ const encrypt = (str: string, key: string): string => gdEncodeBase64(cipher(str,
  * @internal
  */
 const decrypt = (str: string, key: string): string => cipher(gdDecodeBase64(str), key);
-export { cipher, encrypt, decrypt, gdDecodeBase64, gdEncodeBase64 };
+export { cipher, cipherBytes, encrypt, decrypt, gdDecodeBase64, gdEncodeBase64 };
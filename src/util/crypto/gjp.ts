@@ -0,0 +1,33 @@
+/**
+ * Generates the encoded passwords sent to authenticate with GD servers
+ * @internal
+ * @packageDocumentation
+ */
+import sha1 from 'sha1';
+import { encrypt, decrypt } from './cipher';
+
+/**
+ * Generates the GJP (XOR-encrypted password) used by Geometry Dash 2.1
+ * @param password The player's password
+ * @param key The cipher key for accounts
+ * @returns The GJP
+ * @internal
+ */
+const generateGJP = (password: string, key: string): string => encrypt(password, key);
+/**
+ * Generates the GJP2 (salted SHA-1 hash of the password) used by Geometry Dash 2.2
+ * @param password The player's password
+ * @param salt The salt for GJP2
+ * @returns The GJP2
+ * @internal
+ */
+const generateGJP2 = (password: string, salt: string): string => sha1(password + salt);
+/**
+ * Gets the password from a GJP
+ * @param gjp The GJP
+ * @param key The cipher key for accounts
+ * @returns The player's password
+ * @internal
+ */
+const decodeGJP = (gjp: string, key: string): string => decrypt(gjp, key);
+export { generateGJP, generateGJP2, decodeGJP };
@@ -6,3 +6,4 @@ export * from './cipher';
 export * from './keys';
 export * from './salts';
 export * from './rs';
+export * from './gjp';
@@ -29,3 +29,18 @@ export const commentKey = '29481';
  * @internal
  */
 export const likeKey = '58281';
+/**
+ * The cipher key for level uploads
+ * @internal
+ */
+export const uploadKey = '41274';
+/**
+ * The cipher key for profile updates
+ * @internal
+ */
+export const userScoreKey = '85271';
+/**
+ * The cipher key for savefiles
+ * @internal
+ */
+export const saveKey = 11;
@@ -5,7 +5,10 @@
  * @internal
  */
 export const gdEncodeBase64 = (str: string): string =>
-  Buffer.from(str, 'latin1').toString('base64');
+  Buffer.from(str, 'latin1')
+    .toString('base64')
+    .replace(/\//g, '_')
+    .replace(/\+/g, '-');
 
 /**
  * Decode a string from Geometry Dash server-compatible Base64
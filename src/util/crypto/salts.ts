@@ -14,3 +14,18 @@ export const commentSalt = 'xPT6iUrtws0J';
  * @internal
  */
 export const likeSalt = 'ysg6pUrtjn0J';
+/**
+ * The salt used for level uploads
+ * @internal
+ */
+export const uploadSalt = 'xI25fpAapCQg';
+/**
+ * The salt used for profile updates
+ * @internal
+ */
+export const userScoreSalt = 'xI35fsAapCRg';
+/**
+ * The salt used for GJP2
+ * @internal
+ */
+export const gjp2Salt = 'mI29fmAnxgTs';
@@ -0,0 +1,184 @@
+/**
+ * Errors for failed requests to Geometry Dash servers
+ * @internal
+ * @packageDocumentation
+ */
+
+/**
+ * An error returned by a Geometry Dash server
+ */
+export class GDError extends Error {
+  name = 'GDError';
+
+  /**
+   * Creates an error for a failed request
+   * @param message The description of the error
+   * @param response The raw response from the server (e.g. `-1`)
+   * @param endpoint The path that was requested
+   * @internal
+   */
+  constructor(
+    message: string,
+    /** The raw response from the server (e.g. `-1`) */
+    public response?: string,
+    /** The path that was requested */
+    public endpoint?: string
+  ) {
+    super(message);
+    // Needed for subclassing errors when compiling to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * An error for when the requested resource does not exist or there were no results
+ */
+export class NotFoundError extends GDError {
+  name = 'NotFoundError';
+}
+
+/**
+ * An error for when a username, password or GJP is incorrect
+ */
+export class InvalidCredentialsError extends GDError {
+  name = 'InvalidCredentialsError';
+}
+
+/**
+ * An error for when the account that made the request has been disabled
+ */
+export class AccountDisabledError extends GDError {
+  name = 'AccountDisabledError';
+}
+
+/**
+ * An error for when too many requests have been made to the servers
+ */
+export class RateLimitedError extends GDError {
+  name = 'RateLimitedError';
+}
+
+/**
+ * An error for when the servers did not send a valid response, such as an empty response or an HTML error page
+ */
+export class ServerError extends GDError {
+  name = 'ServerError';
+}
+
+/**
+ * A type of error returned by Geometry Dash servers
+ */
+type GDErrorType = typeof GDError;
+
+/**
+ * The meanings of the failure codes returned by the Geometry Dash servers
+ * @internal
+ */
+type ErrorCodeTable = { [code: string]: [GDErrorType, string] };
+
+/** @internal */
+const DEFAULT_ERROR_CODES: ErrorCodeTable = {
+  '-1': [GDError, 'the request failed']
+};
+
+/**
+ * The meanings of the failure codes for each endpoint, where they differ from the defaults
+ * @internal
+ */
+const ERROR_CODES: { [endpoint: string]: ErrorCodeTable } = {
+  '/accounts/loginGJAccount.php': {
+    '-1': [InvalidCredentialsError, 'the username or password is incorrect'],
+    '-11': [InvalidCredentialsError, 'the username or password is incorrect'],
+    '-12': [AccountDisabledError, 'the account has been disabled']
+  },
+  '/getGJUserInfo20.php': {
+    '-1': [NotFoundError, 'the user could not be found']
+  },
+  '/getGJUsers20.php': {
+    '-1': [NotFoundError, 'no users were found']
+  },
+  '/getGJScores20.php': {
+    '-1': [NotFoundError, 'the leaderboard could not be found']
+  },
+  '/getGJLevels21.php': {
+    '-1': [NotFoundError, 'no levels were found']
+  },
+  '/downloadGJLevel22.php': {
+    '-1': [NotFoundError, 'the level could not be found']
+  },
+  '/getGJDailyLevel.php': {
+    '-1': [NotFoundError, 'there is no daily level or weekly demon']
+  },
+  '/getGJSongInfo.php': {
+    '-1': [NotFoundError, 'the song could not be found'],
+    '-2': [NotFoundError, 'the song is not allowed for use in levels']
+  },
+  '/getGJMapPacks21.php': {
+    '-1': [NotFoundError, 'no map packs were found']
+  },
+  '/getGJGauntlets21.php': {
+    '-1': [NotFoundError, 'no gauntlets were found']
+  },
+  '/getGJTopArtists.php': {
+    '-1': [NotFoundError, 'no artists were found']
+  },
+  '/getGJComments21.php': {
+    '-1': [NotFoundError, 'no comments were found']
+  },
+  '/getGJCommentHistory.php': {
+    '-1': [NotFoundError, 'no comments were found']
+  },
+  '/getGJAccountComments20.php': {
+    '-1': [NotFoundError, 'no comments were found']
+  },
+  '/getGJMessages20.php': {
+    '-1': [InvalidCredentialsError, 'the GJP is incorrect'],
+    '-2': [NotFoundError, 'no messages were found']
+  },
+  '/downloadGJMessage20.php': {
+    '-1': [NotFoundError, 'the message could not be found']
+  },
+  '/getGJFriendRequests20.php': {
+    '-1': [InvalidCredentialsError, 'the GJP is incorrect'],
+    '-2': [NotFoundError, 'no friend requests were found']
+  },
+  '/getGJLevelScores211.php': {
+    '-1': [NotFoundError, 'the level leaderboard could not be found']
+  },
+  '/accounts/syncGJAccountNew.php': {
+    '-2': [InvalidCredentialsError, 'the username or password is incorrect']
+  },
+  '/accounts/backupGJAccountNew.php': {
+    '-2': [InvalidCredentialsError, 'the username or password is incorrect']
+  },
+  '/uploadGJComment21.php': {
+    '-10': [AccountDisabledError, 'the account has been banned from commenting']
+  },
+  '/uploadGJAccComment20.php': {
+    '-10': [AccountDisabledError, 'the account has been banned from commenting']
+  }
+};
+
+/**
+ * Converts a response from a Geometry Dash server into the error it represents
+ * @param endpoint The path that was requested
+ * @param response The raw response from the server
+ * @param status The HTTP status code of the response
+ * @returns The error the response represents; null if the request succeeded
+ * @internal
+ */
+export const getError = (endpoint: string, response: string, status = 200): GDError => {
+  const path = endpoint.replace(/^https?:\/\/[^/]+(\/database)?/, '');
+  if (status === 429 || /error code: 1015/.test(response))
+    return new RateLimitedError('too many requests have been made', response, path);
+  if (status >= 500 || !response || /^\s*</.test(response) || /^error code/.test(response))
+    return new ServerError(
+      'the server did not send a valid response (HTTP status ' + status + ')',
+      response,
+      path
+    );
+  if (!/^-\d+$/.test(response)) return null;
+  const [ErrorType, message] = (ERROR_CODES[path] || {})[response] ||
+    DEFAULT_ERROR_CODES[response] || [GDError, 'the request failed with code ' + response];
+  return new ErrorType(message, response, path);
+};
@@ -4,8 +4,8 @@
  * @packageDocumentation
  */
 
-import { gdDecodeBase64 } from './crypto';
-import { decompress as dcmp, strToU8, strFromU8 } from 'fflate';
+import { gdDecodeBase64, gdEncodeBase64 } from './crypto';
+import { decompress as dcmp, gzip, strToU8 as toU8, strFromU8 as fromU8 } from 'fflate';
 
 /**
  * Decompress data of an arbitrary format
@@ -18,13 +18,24 @@ export const decompress = (dat: Uint8Array): Promise<Uint8Array> =>
     dcmp(dat, { consume: true }, (err, dat) => (err ? rej(err) : res(dat)))
   );
 
+/**
+ * Compress data with GZIP
+ * @param dat The data to compress
+ * @returns The compressed data
+ * @internal
+ */
+export const compress = (dat: Uint8Array): Promise<Uint8Array> =>
+  new Promise((res, rej) =>
+    gzip(dat, { consume: true }, (err, dat) => (err ? rej(err) : res(dat)))
+  );
+
 /**
  * Convert a string to a Uint8Array
  * @param str The Base64 string to convert
  * @returns The buffer containing the ASCII-encoded string
  * @internal
  */
-export const b64ToU8 = (str: string): Uint8Array => strToU8(gdDecodeBase64(str), true);
+export const b64ToU8 = (str: string): Uint8Array => toU8(gdDecodeBase64(str), true);
 
 /**
  * Convert a Uint8Array to a string
@@ -32,4 +43,20 @@ export const b64ToU8 = (str: string): Uint8Array => strToU8(gdDecodeBase64(str),
  * @returns The string containing the ASCII-decoded string
  * @internal
  */
-export const u8ToStr = (u8: Uint8Array): string => strFromU8(u8, true);
+export const u8ToStr = (u8: Uint8Array): string => fromU8(u8, true);
+
+/**
+ * Convert a string to a Uint8Array
+ * @param str The string to convert
+ * @returns The buffer containing the ASCII-encoded string
+ * @internal
+ */
+export const strToU8 = (str: string): Uint8Array => toU8(str, true);
+
+/**
+ * Convert a Uint8Array to a string
+ * @param u8 The Uint8Array to convert
+ * @returns The Base64 string representing the Uint8Array
+ * @internal
+ */
+export const u8ToB64 = (u8: Uint8Array): string => gdEncodeBase64(fromU8(u8, true));
@@ -0,0 +1,153 @@
+/**
+ * Middleware and events for requests
+ * @internal
+ * @packageDocumentation
+ */
+
+import GDRequestParams from './param';
+import { RateLimitedError } from './error';
+
+/**
+ * A request passing through the middleware pipeline
+ */
+export type RequestContext = {
+  /** The endpoint being requested (e.g. `/getGJLevels21.php`) */
+  endpoint: string;
+  /** The method for the request */
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  /** The parameters for the request. Null if there are none. These can be changed before calling the next middleware */
+  params: GDRequestParams;
+};
+
+/**
+ * A function that can inspect or change a request and its response. Call `next` to continue with the request, or
+ * return a response without calling it to skip the request entirely.
+ * @param ctx The request
+ * @param next Sends the request through the rest of the pipeline
+ * @returns The response to the request
+ */
+export type Middleware = (ctx: RequestContext, next: () => Promise<string>) => Promise<string>;
+
+/**
+ * Information about a request sent to the servers
+ */
+export type RequestEvent = {
+  /** The endpoint requested */
+  endpoint: string;
+  /** The method for the request */
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  /** The parameters for the request. Null if there were none */
+  params: GDRequestParams;
+  /** The zero-indexed attempt number. Above 0 if the request is being retried */
+  attempt: number;
+};
+
+/**
+ * Information about a response from the servers
+ */
+export type ResponseEvent = RequestEvent & {
+  /** The HTTP status code of the response */
+  status: number;
+  /** The body of the response. Null if the raw response was requested */
+  response: string;
+  /** The number of milliseconds between sending the request and receiving the response */
+  latency: number;
+};
+
+/**
+ * Information about a failed request
+ */
+export type ErrorEvent = RequestEvent & {
+  /** The reason the request failed. A {@link GDError} if the servers sent back an error */
+  error: Error;
+};
+
+/**
+ * Information about a request the servers rejected for being sent too quickly
+ */
+export type RateLimitedEvent = RequestEvent & {
+  /** The error the servers sent back */
+  error: RateLimitedError;
+  /** The number of milliseconds the servers asked the client to wait. Undefined if they did not say */
+  retryAfter: number;
+};
+
+/**
+ * The events emitted by the client
+ */
+export type ClientEvents = {
+  /** Emitted when a request is sent to the servers */
+  request: RequestEvent;
+  /** Emitted when a response is received from the servers */
+  response: ResponseEvent;
+  /** Emitted when a request fails, whether or not the client is in strict mode */
+  error: ErrorEvent;
+  /** Emitted when the servers rate limit the client */
+  rateLimited: RateLimitedEvent;
+};
+
+/**
+ * A listener for an event
+ * @param data The information about the event
+ */
+export type Listener<T> = (data: T) => void;
+
+/**
+ * Emits typed events to listeners
+ */
+export class EventEmitter<E extends { [event: string]: unknown }> {
+  /** @internal */
+  private _listeners: { [K in keyof E]?: Listener<E[K]>[] } = {};
+
+  /**
+   * Listens for an event
+   * @param event The event to listen for
+   * @param listener The function to call when the event is emitted. Errors it throws are reported as warnings
+   * @returns The emitter, for chaining
+   */
+  on<K extends keyof E>(event: K, listener: Listener<E[K]>): this {
+    (this._listeners[event] || (this._listeners[event] = [])).push(listener);
+    return this;
+  }
+
+  /**
+   * Stops listening for an event
+   * @param event The event to stop listening for
+   * @param listener The function that was listening for the event
+   * @returns The emitter, for chaining
+   */
+  off<K extends keyof E>(event: K, listener: Listener<E[K]>): this {
+    const listeners = this._listeners[event];
+    if (listeners && listeners.includes(listener)) listeners.splice(listeners.indexOf(listener), 1);
+    return this;
+  }
+
+  /**
+   * Emits an event
+   * @param event The event to emit
+   * @param data The information about the event
+   * @internal
+   */
+  protected emit<K extends keyof E>(event: K, data: E[K]): void {
+    const listeners = this._listeners[event];
+    if (listeners)
+      for (const listener of listeners.slice()) {
+        // Listeners only observe events, so their errors must not reach the code that emitted them
+        try {
+          listener(data);
+        } catch (e) {
+          this.onListenerError(event, e);
+        }
+      }
+  }
+
+  /**
+   * Called when a listener throws an error
+   * @param event The event the listener was called for
+   * @param error The error the listener threw
+   * @internal
+   */
+  protected onListenerError(event: keyof E, error: Error): void {
+    console.warn(`A listener for the ${event} event threw an error: ${error}`);
+  }
+}
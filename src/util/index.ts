@@ -9,5 +9,15 @@ export { default as GDRequestParams, GDRequestData } from './param';
 export * from './compress';
 export * from './udid';
 export * from './parse';
+export * from './object';
+export * from './settings';
+export * from './plist';
 export * from './crypto';
 export * from './date';
+export * from './page';
+export * from './error';
+export * from './scheduler';
+export * from './cache';
+export * from './transport';
+export * from './server';
+export * from './hooks';
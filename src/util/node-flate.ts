@@ -4,7 +4,8 @@
  * @packageDocumentation
  */
 
-import { inflateRaw, gunzip, inflate } from 'zlib';
+import { inflateRaw, gunzip, inflate, gzip } from 'zlib';
+import { gdEncodeBase64 } from './crypto';
 
 /**
  * Decompress data of an arbitrary format
@@ -22,6 +23,18 @@ export const decompress = (dat: Uint8Array): Promise<Buffer> => {
   });
 };
 
+/**
+ * Compress data with GZIP
+ * @param dat The data to compress
+ * @returns The compressed data
+ * @internal
+ */
+export const compress = (dat: Uint8Array): Promise<Buffer> => {
+  return new Promise((res, rej) => {
+    gzip(dat, (err, dat) => (err ? rej(err) : res(dat)));
+  });
+};
+
 /**
  * Convert a string to a Uint8Array
  * @param str The Base64 string to convert
@@ -37,3 +50,20 @@ export const b64ToU8 = (str: string): Uint8Array => Buffer.from(str, 'base64');
  * @internal
  */
 export const u8ToStr = (u8: Buffer): string => u8.toString('latin1');
+
+/**
+ * Convert a string to a Uint8Array
+ * @param str The string to convert
+ * @returns The buffer containing the ASCII-encoded string
+ * @internal
+ */
+export const strToU8 = (str: string): Uint8Array => Buffer.from(str, 'latin1');
+
+/**
+ * Convert a Uint8Array to a string
+ * @param u8 The Uint8Array to convert
+ * @returns The Base64 string representing the Uint8Array
+ * @internal
+ */
+export const u8ToB64 = (u8: Uint8Array): string =>
+  gdEncodeBase64(Buffer.from(u8.buffer, u8.byteOffset, u8.length).toString('latin1'));
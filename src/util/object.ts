@@ -0,0 +1,423 @@
+/**
+ * Level object model
+ * @internal
+ * @packageDocumentation
+ */
+
+import { gdDecodeBase64, gdEncodeBase64 } from './crypto';
+
+/**
+ * An HSV adjustment applied to a level object's color
+ */
+export type HSV = {
+  /** The hue shift, from -180 to 180 */
+  hue: number;
+  /** The saturation multiplier (or offset, if additive) */
+  saturation: number;
+  /** The brightness multiplier (or offset, if additive) */
+  value: number;
+  /** Whether the saturation is added rather than multiplied */
+  saturationAdditive: boolean;
+  /** Whether the brightness is added rather than multiplied */
+  valueAdditive: boolean;
+};
+
+/**
+ * The format of a level object property in the level string
+ */
+export type ObjectPropertyType = 'number' | 'boolean' | 'string' | 'base64' | 'numberArray' | 'hsv';
+
+/**
+ * Information about a known level object property
+ */
+export type ObjectProperty = {
+  /** The numeric key of the property in the level string */
+  key: number;
+  /** The format of the property */
+  type: ObjectPropertyType;
+};
+
+/**
+ * The registry of known level object properties
+ * Any key not in this registry is still preserved, but can only be accessed through {@link LevelObject.get}.
+ */
+export const OBJECT_PROPERTIES = {
+  id: { key: 1, type: 'number' },
+  x: { key: 2, type: 'number' },
+  y: { key: 3, type: 'number' },
+  flipX: { key: 4, type: 'boolean' },
+  flipY: { key: 5, type: 'boolean' },
+  rotation: { key: 6, type: 'number' },
+  editorLayer: { key: 20, type: 'number' },
+  mainColor: { key: 21, type: 'number' },
+  secondaryColor: { key: 22, type: 'number' },
+  zLayer: { key: 24, type: 'number' },
+  zOrder: { key: 25, type: 'number' },
+  text: { key: 31, type: 'base64' },
+  scale: { key: 32, type: 'number' },
+  mainHSVEnabled: { key: 41, type: 'boolean' },
+  secondaryHSVEnabled: { key: 42, type: 'boolean' },
+  mainHSV: { key: 43, type: 'hsv' },
+  secondaryHSV: { key: 44, type: 'hsv' },
+  groups: { key: 57, type: 'numberArray' },
+  editorLayer2: { key: 61, type: 'number' }
+} as const;
+
+/**
+ * The name of a known level object property
+ */
+export type ObjectPropertyName = keyof typeof OBJECT_PROPERTIES;
+
+/**
+ * Converts a raw property value into its typed representation
+ * @param value The raw value from the level string
+ * @param type The format of the property
+ * @returns The typed value
+ * @internal
+ */
+const decodeProperty = (
+  value: string,
+  type: ObjectPropertyType
+): number | boolean | string | number[] | HSV => {
+  switch (type) {
+    case 'boolean':
+      return value === '1';
+    case 'string':
+      return value;
+    case 'base64':
+      return gdDecodeBase64(value);
+    case 'numberArray':
+      return value ? value.split('.').map(v => +v) : [];
+    case 'hsv': {
+      const [hue, saturation, val, saturationAdditive, valueAdditive] = value.split('a');
+      return {
+        hue: +hue,
+        saturation: +saturation,
+        value: +val,
+        saturationAdditive: saturationAdditive === '1',
+        valueAdditive: valueAdditive === '1'
+      };
+    }
+    default:
+      return +value;
+  }
+};
+
+/**
+ * Converts a typed property value into its raw representation
+ * @param value The typed value
+ * @param type The format of the property
+ * @returns The raw value for the level string
+ * @internal
+ */
+const encodeProperty = (
+  value: number | boolean | string | number[] | HSV,
+  type: ObjectPropertyType
+): string => {
+  switch (type) {
+    case 'boolean':
+      return value ? '1' : '0';
+    case 'base64':
+      return gdEncodeBase64(value as string);
+    case 'numberArray':
+      return (value as number[]).join('.');
+    case 'hsv': {
+      const hsv = value as HSV;
+      return [hsv.hue, hsv.saturation, hsv.value, +hsv.saturationAdditive, +hsv.valueAdditive].join(
+        'a'
+      );
+    }
+    default:
+      return value.toString();
+  }
+};
+
+/**
+ * A set of key-value pairs in one of the raw formats used in level strings
+ * Values are stored exactly as they appear in the level string, so properties that are not modified
+ * (including unknown ones) are serialized back without any changes.
+ */
+export class PropertyMap {
+  /** @internal */
+  protected _props: Map<string, string>;
+
+  /**
+   * Creates a property map
+   * @param rawData The raw string to parse. If omitted, creates an empty map
+   * @param _splitter The splitter for the data
+   * @internal
+   */
+  constructor(
+    rawData = '',
+    /** @internal */
+    protected _splitter = ','
+  ) {
+    this._props = new Map();
+    if (!rawData) return;
+    const split = rawData.split(_splitter);
+    for (let i = 0; i < split.length; i += 2) this._props.set(split[i], split[i + 1]);
+  }
+
+  /**
+   * Gets the raw value of a property
+   * @param key The key of the property
+   * @returns The raw string value of the property; undefined if not present
+   */
+  get(key: number | string): string {
+    return this._props.get(key.toString());
+  }
+
+  /**
+   * Sets the raw value of a property
+   * @param key The key of the property
+   * @param value The new raw value of the property. Pass undefined to remove the property
+   */
+  set(key: number | string, value: string): void {
+    if (value === undefined) this._props.delete(key.toString());
+    else this._props.set(key.toString(), value);
+  }
+
+  /**
+   * Checks whether a property is present
+   * @param key The key of the property
+   * @returns Whether the property is present
+   */
+  has(key: number | string): boolean {
+    return this._props.has(key.toString());
+  }
+
+  /**
+   * Gets the typed value of a property
+   * @param key The key of the property
+   * @param type The format of the property
+   * @returns The typed value; undefined if not present
+   * @internal
+   */
+  protected getTyped<T>(key: number | string, type: ObjectPropertyType): T {
+    const value = this.get(key);
+    return value === undefined ? undefined : ((decodeProperty(value, type) as unknown) as T);
+  }
+
+  /**
+   * Sets the typed value of a property
+   * @param key The key of the property
+   * @param type The format of the property
+   * @param value The typed value. Pass undefined to remove the property
+   * @internal
+   */
+  protected setTyped(
+    key: number | string,
+    type: ObjectPropertyType,
+    value: number | boolean | string | number[] | HSV
+  ): void {
+    this.set(key, value === undefined ? undefined : encodeProperty(value, type));
+  }
+
+  /**
+   * Converts the properties back into their raw string representation
+   * @returns The raw string
+   */
+  toString(): string {
+    const out: string[] = [];
+    this._props.forEach((value, key) => out.push(key, value));
+    return out.join(this._splitter);
+  }
+}
+
+/**
+ * An object in a Geometry Dash level
+ */
+export class LevelObject extends PropertyMap {
+  /**
+   * Creates a level object
+   * @param rawData The raw object string to parse. If omitted, creates an empty object
+   */
+  constructor(rawData = '') {
+    super(rawData, ',');
+  }
+
+  /**
+   * Gets the keys of the properties present on the object, in order
+   * @returns The numeric keys of the object's properties
+   */
+  keys(): number[] {
+    const keys: number[] = [];
+    this._props.forEach((_, key) => keys.push(+key));
+    return keys;
+  }
+
+  /** @internal */
+  private getProp<T>(name: ObjectPropertyName): T {
+    const { key, type } = OBJECT_PROPERTIES[name];
+    return this.getTyped(key, type);
+  }
+
+  /** @internal */
+  private setProp<T extends number | boolean | string | number[] | HSV>(
+    name: ObjectPropertyName,
+    value: T
+  ): void {
+    const { key, type } = OBJECT_PROPERTIES[name];
+    this.setTyped(key, type, value);
+  }
+
+  /** The object's ID (i.e. which block, spike, trigger, etc. it is) */
+  get id(): number {
+    return this.getProp('id');
+  }
+  set id(v: number) {
+    this.setProp('id', v);
+  }
+
+  /** The X position of the object */
+  get x(): number {
+    return this.getProp('x') || 0;
+  }
+  set x(v: number) {
+    this.setProp('x', v);
+  }
+
+  /** The Y position of the object */
+  get y(): number {
+    return this.getProp('y') || 0;
+  }
+  set y(v: number) {
+    this.setProp('y', v);
+  }
+
+  /** Whether the object is flipped horizontally */
+  get flipX(): boolean {
+    return this.getProp('flipX') || false;
+  }
+  set flipX(v: boolean) {
+    this.setProp('flipX', v);
+  }
+
+  /** Whether the object is flipped vertically */
+  get flipY(): boolean {
+    return this.getProp('flipY') || false;
+  }
+  set flipY(v: boolean) {
+    this.setProp('flipY', v);
+  }
+
+  /** The rotation of the object in degrees */
+  get rotation(): number {
+    return this.getProp('rotation') || 0;
+  }
+  set rotation(v: number) {
+    this.setProp('rotation', v);
+  }
+
+  /** The object's first editor layer */
+  get editorLayer(): number {
+    return this.getProp('editorLayer') || 0;
+  }
+  set editorLayer(v: number) {
+    this.setProp('editorLayer', v);
+  }
+
+  /** The object's second editor layer */
+  get editorLayer2(): number {
+    return this.getProp('editorLayer2') || 0;
+  }
+  set editorLayer2(v: number) {
+    this.setProp('editorLayer2', v);
+  }
+
+  /** The object's Z layer. Undefined if the object uses its default Z layer */
+  get zLayer(): number {
+    return this.getProp('zLayer');
+  }
+  set zLayer(v: number) {
+    this.setProp('zLayer', v);
+  }
+
+  /** The object's Z order */
+  get zOrder(): number {
+    return this.getProp('zOrder') || 0;
+  }
+  set zOrder(v: number) {
+    this.setProp('zOrder', v);
+  }
+
+  /** The ID of the object's main color channel. Undefined if the object uses its default color */
+  get mainColor(): number {
+    return this.getProp('mainColor');
+  }
+  set mainColor(v: number) {
+    this.setProp('mainColor', v);
+  }
+
+  /** The ID of the object's secondary color channel. Undefined if the object uses its default color */
+  get secondaryColor(): number {
+    return this.getProp('secondaryColor');
+  }
+  set secondaryColor(v: number) {
+    this.setProp('secondaryColor', v);
+  }
+
+  /** The groups the object belongs to */
+  get groups(): number[] {
+    return this.getProp('groups') || [];
+  }
+  set groups(v: number[]) {
+    this.setProp('groups', v && v.length ? v : undefined);
+  }
+
+  /** The scale of the object */
+  get scale(): number {
+    return this.getProp('scale') || 1;
+  }
+  set scale(v: number) {
+    this.setProp('scale', v);
+  }
+
+  /** Whether the HSV adjustment of the main color is enabled */
+  get mainHSVEnabled(): boolean {
+    return this.getProp('mainHSVEnabled') || false;
+  }
+  set mainHSVEnabled(v: boolean) {
+    this.setProp('mainHSVEnabled', v);
+  }
+
+  /** Whether the HSV adjustment of the secondary color is enabled */
+  get secondaryHSVEnabled(): boolean {
+    return this.getProp('secondaryHSVEnabled') || false;
+  }
+  set secondaryHSVEnabled(v: boolean) {
+    this.setProp('secondaryHSVEnabled', v);
+  }
+
+  /** The HSV adjustment of the main color. Undefined if not set */
+  get mainHSV(): HSV {
+    return this.getProp('mainHSV');
+  }
+  set mainHSV(v: HSV) {
+    this.setProp('mainHSV', v);
+  }
+
+  /** The HSV adjustment of the secondary color. Undefined if not set */
+  get secondaryHSV(): HSV {
+    return this.getProp('secondaryHSV');
+  }
+  set secondaryHSV(v: HSV) {
+    this.setProp('secondaryHSV', v);
+  }
+
+  /** The text of the object. Only present on text objects */
+  get text(): string {
+    return this.getProp('text');
+  }
+  set text(v: string) {
+    this.setProp('text', v);
+  }
+}
+
+/**
+ * Converts a raw object string into a level object.
+ * @param data The object to parse
+ * @returns The parsed object
+ * @internal
+ */
+export const parseLevelObject = (data: string): LevelObject => new LevelObject(data);
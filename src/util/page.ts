@@ -0,0 +1,250 @@
+/**
+ * Pagination for list endpoints
+ * @internal
+ * @packageDocumentation
+ */
+
+import { NotFoundError } from './error';
+
+/**
+ * Information about the position of a page of results, as reported by the Geometry Dash servers
+ */
+export type PageInfo = {
+  /** The total number of results */
+  total: number;
+  /** The number of results before this page */
+  offset: number;
+  /** The maximum number of results on each page */
+  pageSize: number;
+};
+
+/**
+ * A page of results from a list endpoint
+ * @internal
+ */
+export type RawPage<T> = {
+  /** The results on the page */
+  items: T[];
+  /** The position of the page. Null if the server did not report it */
+  info: PageInfo;
+};
+
+/**
+ * Gets a page of results from a list endpoint
+ * @param page The zero-indexed page to get
+ * @returns The page of results; null if there are no results on the page
+ * @internal
+ */
+export type PageFetcher<T> = (page: number) => Promise<RawPage<T>>;
+
+/**
+ * Parses the `total:offset:pageSize` section that the Geometry Dash servers append to list responses
+ * @param data The raw response from the server
+ * @returns The position of the page; null if the response has no page information
+ * @internal
+ */
+export const parsePageInfo = (data: string): PageInfo => {
+  const section = data
+    .split('#')
+    .slice(1)
+    .reverse()
+    .find(str => /^\d+:\d+:\d+$/.test(str));
+  if (!section) return null;
+  const [total, offset, pageSize] = section.split(':').map(v => +v);
+  return { total, offset, pageSize };
+};
+
+/**
+ * An iterator over the results of a list endpoint that fetches each page only when it is needed
+ */
+export class PageIterator<T> implements AsyncIterableIterator<T> {
+  /** The total number of results. Undefined until the first page has been fetched */
+  total: number;
+  /** The maximum number of results on each page. Undefined until the first page has been fetched */
+  pageSize: number;
+  /** The page that will be fetched next */
+  page: number;
+  /** @internal */
+  private _buffer: T[] = [];
+  /** @internal */
+  private _done = false;
+  /** @internal */
+  private _started = false;
+
+  /**
+   * Creates an iterator over the results of a list endpoint
+   * @param _fetch The function to get each page with
+   * @param startPage The page to start from. Defaults to 0 (the first page)
+   * @internal
+   */
+  constructor(
+    /** @internal */
+    private _fetch: PageFetcher<T>,
+    startPage = 0
+  ) {
+    this.page = startPage;
+  }
+
+  /**
+   * Gets the next result, fetching the next page if necessary
+   * @returns The next result
+   * @async
+   */
+  async next(): Promise<IteratorResult<T>> {
+    while (!this._buffer.length) {
+      if (this._done) return { done: true, value: undefined };
+      let result: RawPage<T>;
+      try {
+        result = await this._fetch(this.page++);
+      } catch (e) {
+        // In strict mode, running out of results is reported as an error. Only a lack of any results at all
+        // should reach the caller
+        if (!(e instanceof NotFoundError) || !this._started) throw e;
+      }
+      this._started = true;
+      if (!result || !result.items.length) {
+        this._done = true;
+        continue;
+      }
+      const { items, info } = result;
+      this._buffer = items;
+      if (info) {
+        this.total = info.total;
+        this.pageSize = info.pageSize;
+        if (info.offset + items.length >= info.total) this._done = true;
+      } else if (items.length < (this.pageSize || 10)) this._done = true;
+    }
+    return { done: false, value: this._buffer.shift() };
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+}
+
+/**
+ * Gets results from an iterator until enough have been collected or there are no more
+ * @param iter The iterator to get the results from
+ * @param num The number of results to get
+ * @returns The results
+ * @async
+ * @internal
+ */
+export const collectPages = async <T>(iter: PageIterator<T>, num: number): Promise<T[]> => {
+  const items: T[] = [];
+  while (items.length < num) {
+    const { done, value } = await iter.next();
+    if (done) break;
+    items.push(value);
+  }
+  return items;
+};
+
+/**
+ * A page of results from a list endpoint. This is an array of the results, along with information about
+ * where the page is among all of the results.
+ */
+export class Page<T> extends Array<T> {
+  /** The total number of results. Undefined if the servers did not report it */
+  total: number;
+  /** The zero-indexed number of this page */
+  page: number;
+  /** The maximum number of results on each page */
+  pageSize: number;
+  /** @internal */
+  private _getPage: (page: number) => Promise<Page<T>>;
+
+  /**
+   * Creates a page of results
+   * @param items The results on the page
+   * @param info The position of the page
+   * @param getPage The function to get other pages with
+   * @internal
+   */
+  constructor(
+    items: T[],
+    info: { total: number; page: number; pageSize: number },
+    getPage: (page: number) => Promise<Page<T>>
+  ) {
+    super();
+    // Needed for subclassing arrays when compiling to ES5
+    Object.setPrototypeOf(this, Page.prototype);
+    this.push(...items);
+    this.total = info.total;
+    this.page = info.page;
+    this.pageSize = info.pageSize;
+    Object.defineProperty(this, '_getPage', { value: getPage });
+  }
+
+  /**
+   * Makes methods such as map and filter return plain arrays
+   * @internal
+   */
+  static get [Symbol.species](): ArrayConstructor {
+    return Array;
+  }
+
+  /** The total number of pages. Undefined if the total number of results is unknown */
+  get pages(): number {
+    return this.total === undefined ? undefined : Math.ceil(this.total / this.pageSize);
+  }
+
+  /**
+   * Gets another page of results
+   * @param page The zero-indexed number of the page to get
+   * @returns The page of results
+   * @async
+   */
+  async getPage(page: number): Promise<Page<T>> {
+    return await this._getPage(page);
+  }
+
+  /**
+   * Gets the next page of results
+   * @returns The next page of results; null if this is the last page
+   * @async
+   */
+  async next(): Promise<Page<T>> {
+    if (
+      this.length < this.pageSize ||
+      (this.total !== undefined && (this.page + 1) * this.pageSize >= this.total)
+    )
+      return null;
+    const next = await this._getPage(this.page + 1);
+    return next.length ? next : null;
+  }
+
+  /**
+   * Gets the previous page of results
+   * @returns The previous page of results; null if this is the first page
+   * @async
+   */
+  async prev(): Promise<Page<T>> {
+    return this.page > 0 ? await this._getPage(this.page - 1) : null;
+  }
+}
+
+/**
+ * Gets a page of results from a list endpoint. The page size does not need to match the page size of the endpoint.
+ * @param fetch The function to get each page of the endpoint with
+ * @param page The zero-indexed page to get
+ * @param pageSize The number of results on each page
+ * @param serverPageSize The number of results on each page of the endpoint. Defaults to 10.
+ * @returns The page of results
+ * @async
+ * @internal
+ */
+export const fetchPage = async <T>(
+  fetch: PageFetcher<T>,
+  page: number,
+  pageSize: number,
+  serverPageSize = 10
+): Promise<Page<T>> => {
+  const start = page * pageSize;
+  const iter = new PageIterator(fetch, Math.floor(start / serverPageSize));
+  for (let i = start % serverPageSize; i > 0; i--) if ((await iter.next()).done) break;
+  const items = await collectPages(iter, pageSize);
+  return new Page(items, { total: iter.total, page, pageSize }, newPage =>
+    fetchPage(fetch, newPage, pageSize, serverPageSize)
+  );
+};
@@ -4,6 +4,9 @@
  * @packageDocumentation
  */
 
+import { ServerProfile } from './server';
+import { decodeGJP, generateGJP2 } from './crypto';
+
 /** @internal */
 const USP =
   typeof URLSearchParams === 'undefined'
@@ -15,10 +18,11 @@ const USP =
  * @remarks Only exist because RobTop doesn't know how to use tokens.
  * @internal
  */
-const SECRETS = {
+export const SECRETS = {
   db: 'Wmfd2893gb7',
   account: 'Wmfv3899gc9',
-  moderator: 'Wmfp3879gc3'
+  moderator: 'Wmfp3879gc3',
+  deleteLevel: 'Wmfv2898gc9'
 };
 
 /**
@@ -31,6 +35,8 @@ export type GDRequestData = { [k: string]: string | number };
  */
 export default class GDRequestParams {
   private data: GDRequestData;
+  /** @internal */
+  private authType: keyof typeof SECRETS;
 
   /**
    * Creates a new group of Geometry Dash request parameters.
@@ -60,17 +66,34 @@ export default class GDRequestParams {
    * @returns The new raw data
    */
   authorize(type: keyof typeof SECRETS = 'db'): GDRequestData {
+    this.authType = type;
     this.data.secret = SECRETS[type];
     return this.data;
   }
 
   /**
    * Resolves the request parameters to a URLSearchParams object.
+   * @param server The profile of the server the request is for. Its versions and secrets replace the defaults,
+   *               and only the password format (GJP or GJP2) its protocol version uses is sent
    * @returns The parameters as a URLSearchParams object
    */
-  resolve(): URLSearchParams {
-    return new USP(
-      Object.keys(this.data).map(paramName => [paramName, this.data[paramName].toString()])
-    );
+  resolve(server?: ServerProfile): URLSearchParams {
+    const data = server
+      ? {
+          ...this.data,
+          gameVersion: server.gameVersion,
+          binaryVersion: server.binaryVersion,
+          ...(this.authType ? { secret: server.secrets[this.authType] } : {})
+        }
+      : this.data;
+    if (server && server.version === '2.2') {
+      if (data.gjp && !data.gjp2)
+        data.gjp2 = generateGJP2(
+          decodeGJP(data.gjp as string, server.keys.account),
+          server.salts.gjp2
+        );
+      delete data.gjp;
+    } else if (server) delete data.gjp2;
+    return new USP(Object.keys(data).map(paramName => [paramName, data[paramName].toString()]));
   }
 }
@@ -30,6 +30,18 @@ export const parse = (data: string, splitter = defaultSplitter): ParsedData => {
   return obj;
 };
 
+/**
+ * Converts key-value pairs into the raw string format used by the Geometry Dash servers.
+ * @param data The data to convert
+ * @param splitter The splitter for the data. Defaults to a colon
+ * @returns The raw string
+ * @internal
+ */
+export const stringify = (data: ParsedData, splitter = defaultSplitter): string =>
+  Object.keys(data)
+    .map(k => k + splitter + data[k])
+    .join(splitter);
+
 /**
  * A parsed Geometry Dash level object
  */
@@ -0,0 +1,175 @@
+/**
+ * Parse the plist-like XML used in Geometry Dash savefiles
+ * @internal
+ * @packageDocumentation
+ */
+
+/**
+ * A value in a Geometry Dash savefile
+ */
+export type PlistValue = string | number | boolean | PlistDict;
+
+/**
+ * A dictionary in a Geometry Dash savefile
+ */
+export type PlistDict = { [k: string]: PlistValue };
+
+/** @internal */
+const ENTITIES: { [k: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * The original text of the real (`<r>`) values in each parsed dictionary, by key. Used to write reals back
+ * exactly as they were read, since integral reals (e.g. `1.0`) would otherwise be written as integers.
+ * @internal
+ */
+const REALS = new WeakMap<PlistDict, { [k: string]: string }>();
+
+/**
+ * Encodes the characters in a string that cannot appear in XML text
+ * @param str The string to encode
+ * @returns The encoded string
+ * @internal
+ */
+const escapeXML = (str: string): string =>
+  str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+/**
+ * Decodes the XML entities in a string
+ * @param str The string to decode
+ * @returns The decoded string
+ * @internal
+ */
+const unescapeXML = (str: string): string =>
+  str.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity) => ENTITIES[entity]);
+
+/**
+ * Converts the plist-like XML from a Geometry Dash savefile into a JavaScript object.
+ * Keys are tagged with `<k>`, and values are tagged with `<s>` (string), `<i>` (integer),
+ * `<r>` (real), `<t />` (true) or `<d>` (dictionary).
+ * @param data The XML to parse
+ * @returns The parsed root dictionary
+ * @internal
+ */
+export const parsePlist = (data: string): PlistDict => {
+  const tokens = data.match(/<[^>]*>|[^<]+/g) || [];
+  let i = tokens.indexOf('<dict>');
+  if (i === -1) return {};
+  i++;
+  const readText = (): string => {
+    let text = '';
+    while (i < tokens.length && tokens[i][0] !== '<') text += tokens[i++];
+    return unescapeXML(text);
+  };
+  const readDict = (): PlistDict => {
+    const dict: PlistDict = {};
+    const reals: { [k: string]: string } = {};
+    REALS.set(dict, reals);
+    while (i < tokens.length) {
+      const tag = tokens[i++];
+      if (tag === '</d>' || tag === '</dict>') break;
+      if (tag !== '<k>') continue;
+      const key = readText();
+      i++; // </k>
+      const valueTag = tokens[i++];
+      switch (valueTag) {
+        case '<d>':
+          dict[key] = readDict();
+          break;
+        case '<d/>':
+        case '<d />':
+          dict[key] = {};
+          break;
+        case '<t/>':
+        case '<t />':
+          dict[key] = true;
+          break;
+        case '<f/>':
+        case '<f />':
+          dict[key] = false;
+          break;
+        case '<i>':
+          dict[key] = +readText();
+          i++;
+          break;
+        case '<r>':
+          reals[key] = readText();
+          dict[key] = +reals[key];
+          i++;
+          break;
+        case '<s>':
+          dict[key] = readText();
+          i++;
+          break;
+        default:
+          // Empty values, such as <s />
+          if (valueTag.startsWith('<r')) reals[key] = '';
+          dict[key] = valueTag.startsWith('<s') ? '' : 0;
+      }
+    }
+    return dict;
+  };
+  return readDict();
+};
+
+/**
+ * Creates a shallow copy of a parsed dictionary, keeping track of which of its values are reals
+ * @param dict The dictionary to copy
+ * @returns The copy
+ * @internal
+ */
+export const copyPlistDict = (dict: PlistDict): PlistDict => {
+  const copy = { ...dict };
+  if (REALS.has(dict)) REALS.set(copy, { ...REALS.get(dict) });
+  return copy;
+};
+
+/**
+ * Converts a dictionary into the plist-like XML tags used in Geometry Dash savefiles
+ * @param dict The dictionary to convert
+ * @returns The XML tags for the dictionary's contents
+ * @internal
+ */
+const serializeDict = (dict: PlistDict): string => {
+  const reals = REALS.get(dict) || {};
+  return Object.keys(dict)
+    .map(k => {
+      const value = dict[k];
+      if (value === false || value === undefined || value === null) return '';
+      const key = '<k>' + escapeXML(k) + '</k>';
+      switch (typeof value) {
+        case 'boolean':
+          return key + '<t />';
+        case 'number':
+          // Unchanged reals are written back exactly as they were read
+          if (k in reals) return key + '<r>' + (+reals[k] === value ? reals[k] : value) + '</r>';
+          return key + (Number.isInteger(value) ? '<i>' + value + '</i>' : '<r>' + value + '</r>');
+        case 'string':
+          return key + '<s>' + escapeXML(value) + '</s>';
+        default: {
+          const contents = serializeDict(value);
+          return key + (contents ? '<d>' + contents + '</d>' : '<d />');
+        }
+      }
+    })
+    .join('');
+};
+
+/**
+ * Converts a JavaScript object into the plist-like XML used in Geometry Dash savefiles.
+ * @param data The root dictionary to convert
+ * @returns The XML
+ * @internal
+ */
+export const serializePlist = (data: PlistDict): string =>
+  '<?xml version="1.0"?><plist version="1.0" gjver="2.0"><dict>' +
+  serializeDict(data) +
+  '</dict></plist>';
@@ -0,0 +1,205 @@
+/**
+ * Request scheduling and retrying
+ * @internal
+ * @packageDocumentation
+ */
+
+/**
+ * Limits on how quickly requests can be made
+ */
+export type RequestLimits = {
+  /** The maximum number of requests that can be in progress at once. Defaults to no limit. */
+  concurrency?: number;
+  /** The minimum number of milliseconds between the start of each request. Defaults to 0. */
+  minInterval?: number;
+};
+
+/**
+ * Configuration for scheduling and retrying requests to the Geometry Dash servers
+ */
+export type SchedulerConfig = RequestLimits & {
+  /** Limits for specific endpoints (e.g. `/getGJLevels21.php`), applied in addition to the global limits */
+  endpoints?: { [endpoint: string]: RequestLimits };
+  /**
+   * The maximum number of times to retry a failed request. Only requests that fetch data are retried,
+   * unless the servers reported that the client was rate limited. A `-1` response to a request made with
+   * account credentials is not retried, since it usually means the credentials are invalid. Defaults to 0.
+   */
+  retries?: number;
+  /** The delay before the first retry in milliseconds. Each retry waits twice as long as the last. Defaults to 500. */
+  backoff?: number;
+  /** The maximum delay before a retry in milliseconds. Defaults to 30000. */
+  maxBackoff?: number;
+  /**
+   * Called whenever the number of requests waiting to be sent changes
+   * @param depth The number of requests waiting to be sent
+   */
+  onQueue?: (depth: number) => void;
+};
+
+/**
+ * The state of the requests to an endpoint
+ * @internal
+ */
+type LimitState = {
+  /** The number of requests in progress */
+  active: number;
+  /** The time at which the last request started */
+  lastStart: number;
+};
+
+/**
+ * A request waiting to be sent
+ * @internal
+ */
+type QueuedRequest = {
+  /** The endpoint the request is for */
+  endpoint: string;
+  /** Starts the request */
+  start: () => void;
+};
+
+/**
+ * Waits for some time
+ * @param ms The number of milliseconds to wait
+ * @internal
+ */
+export const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Checks whether an endpoint only fetches data, so requests to it can safely be retried
+ * @param endpoint The path of the endpoint
+ * @returns Whether the endpoint only fetches data
+ * @internal
+ */
+export const isIdempotent = (endpoint: string): boolean =>
+  /^\/(accounts\/)?(get|download)/.test(endpoint);
+
+/**
+ * Schedules requests so that they stay within the configured limits
+ * @internal
+ */
+export class RequestScheduler {
+  /** @internal */
+  private _queue: QueuedRequest[] = [];
+  /** @internal */
+  private _global: LimitState = { active: 0, lastStart: 0 };
+  /** @internal */
+  private _endpoints: { [endpoint: string]: LimitState } = {};
+  /** @internal */
+  private _timer: ReturnType<typeof setTimeout> = null;
+  /** @internal */
+  private _reportedDepth = 0;
+
+  /**
+   * Creates a request scheduler
+   * @param config The configuration for the scheduler
+   * @internal
+   */
+  constructor(
+    /** @internal */
+    private config: SchedulerConfig = {}
+  ) {}
+
+  /** The number of requests waiting to be sent */
+  get depth(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Gets the delay before retrying a request
+   * @param attempt The number of attempts that have failed so far
+   * @returns The number of milliseconds to wait, with jitter added
+   */
+  backoff(attempt: number): number {
+    const { backoff = 500, maxBackoff = 30000 } = this.config;
+    const delay = Math.min(maxBackoff, backoff * Math.pow(2, attempt));
+    return delay / 2 + (Math.random() * delay) / 2;
+  }
+
+  /**
+   * Runs a task once the limits for its endpoint allow it
+   * @param endpoint The endpoint the task requests
+   * @param task The task to run
+   * @returns The result of the task
+   * @async
+   */
+  schedule<T>(endpoint: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this._queue.push({
+        endpoint,
+        start: () => {
+          const states = [this._global, this.stateFor(endpoint)];
+          for (const state of states) {
+            state.active++;
+            state.lastStart = Date.now();
+          }
+          task()
+            .then(resolve, reject)
+            .then(() => {
+              for (const state of states) state.active--;
+              this.pump();
+            });
+        }
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Gets the state of the requests to an endpoint
+   * @param endpoint The endpoint to get the state for
+   * @returns The state of the requests to the endpoint
+   * @internal
+   */
+  private stateFor(endpoint: string): LimitState {
+    return this._endpoints[endpoint] || (this._endpoints[endpoint] = { active: 0, lastStart: 0 });
+  }
+
+  /**
+   * Gets how long a request must wait before it can be sent
+   * @param endpoint The endpoint the request is for
+   * @param now The current time
+   * @returns The number of milliseconds to wait; -1 if too many requests are in progress
+   * @internal
+   */
+  private delayFor(endpoint: string, now: number): number {
+    const limits = [
+      { limit: this.config, state: this._global },
+      { limit: (this.config.endpoints || {})[endpoint], state: this.stateFor(endpoint) }
+    ];
+    let delay = 0;
+    for (const { limit, state } of limits) {
+      if (!limit) continue;
+      if (limit.concurrency && state.active >= limit.concurrency) return -1;
+      if (limit.minInterval) delay = Math.max(delay, state.lastStart + limit.minInterval - now);
+    }
+    return delay;
+  }
+
+  /**
+   * Sends as many waiting requests as the limits allow, then waits for more to be allowed
+   * @internal
+   */
+  private pump(): void {
+    if (this._timer) return;
+    let wait = Infinity;
+    for (let i = 0; i < this._queue.length; i++) {
+      const req = this._queue[i];
+      const delay = this.delayFor(req.endpoint, Date.now());
+      if (delay === 0) {
+        this._queue.splice(i--, 1);
+        req.start();
+      } else if (delay > 0) wait = Math.min(wait, delay);
+    }
+    if (wait !== Infinity)
+      this._timer = setTimeout(() => {
+        this._timer = null;
+        this.pump();
+      }, wait);
+    if (this._queue.length !== this._reportedDepth) {
+      this._reportedDepth = this._queue.length;
+      if (this.config.onQueue) this.config.onQueue(this._reportedDepth);
+    }
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Server profiles for the official servers and private servers (GDPS)
+ * @internal
+ * @packageDocumentation
+ */
+
+import {
+  accountKey,
+  levelKey,
+  messageKey,
+  commentKey,
+  likeKey,
+  uploadKey,
+  userScoreKey,
+  commentSalt,
+  likeSalt,
+  uploadSalt,
+  userScoreSalt,
+  gjp2Salt
+} from './crypto';
+import { SECRETS } from './param';
+
+/**
+ * The "secrets" sent to authenticate each type of request
+ */
+export type ServerSecrets = {
+  /** The secret for most requests */
+  db: string;
+  /** The secret for account requests, such as logging in */
+  account: string;
+  /** The secret for moderator requests */
+  moderator: string;
+  /** The secret for deleting levels */
+  deleteLevel: string;
+};
+
+/**
+ * The XOR keys used to encrypt and decrypt values sent to and from the servers
+ */
+export type ServerKeys = {
+  /** The key for account passwords (GJP) */
+  account: string;
+  /** The key for level passwords */
+  level: string;
+  /** The key for messages */
+  message: string;
+  /** The key for comment checksums */
+  comment: string;
+  /** The key for like checksums */
+  like: string;
+  /** The key for level upload checksums */
+  upload: string;
+  /** The key for profile update checksums */
+  userScore: string;
+};
+
+/**
+ * The salts used to generate checksums
+ */
+export type ServerSalts = {
+  /** The salt for comments */
+  comment: string;
+  /** The salt for likes */
+  like: string;
+  /** The salt for level uploads */
+  upload: string;
+  /** The salt for profile updates */
+  userScore: string;
+  /** The salt for GJP2 (2.2 only) */
+  gjp2: string;
+};
+
+/**
+ * A version of the protocol used to talk to Geometry Dash servers. 2.1 authenticates with the XOR-encrypted
+ * password (GJP), while 2.2 uses its salted SHA-1 hash (GJP2).
+ */
+export type ProtocolVersion = '2.1' | '2.2';
+
+/**
+ * The default versions to send for each version of the protocol. The endpoint names are the same in both versions.
+ * @internal
+ */
+const PROTOCOL_VERSIONS: {
+  [version in ProtocolVersion]: { gameVersion: number; binaryVersion?: number };
+} = {
+  '2.1': { gameVersion: 21, binaryVersion: 35 },
+  // The binary version changes with each 2.2 update, so it must be set to match the server
+  '2.2': { gameVersion: 22 }
+};
+
+/**
+ * The values a Geometry Dash server expects from clients. Private servers may use different values
+ * from the official servers.
+ */
+export type ServerProfile = {
+  /** The URL for the database. Undefined if the server software has no standard location */
+  dbURL?: string;
+  /** The version of the protocol the server uses */
+  version: ProtocolVersion;
+  /** The game version to send with requests */
+  gameVersion: number;
+  /** The binary version to send with requests */
+  binaryVersion: number;
+  /** The secrets to send with requests */
+  secrets: ServerSecrets;
+  /** The XOR keys for encrypted values */
+  keys: ServerKeys;
+  /** The salts for checksums */
+  salts: ServerSalts;
+  /** The names of endpoints that differ from the official servers, e.g. `{ '/getGJLevels21.php': '/levels.php' }` */
+  endpoints: { [endpoint: string]: string };
+};
+
+/**
+ * The bundled server profiles
+ */
+export type ServerPreset = 'official' | 'gmdPrivateServer';
+
+/**
+ * Changes to a server profile. Any values not provided are taken from the preset.
+ */
+export type ServerConfig = {
+  /** The preset to base the profile on. Defaults to `'official'`. */
+  preset?: ServerPreset;
+  /** The URL for the database */
+  dbURL?: string;
+  /**
+   * The version of the protocol the server uses. Changing this also changes the default game version. For 2.2,
+   * {@link ServerConfig.binaryVersion} must also be set. Endpoint names are the same in both versions, so
+   * use {@link ServerConfig.endpoints} if the server renamed them.
+   */
+  version?: ProtocolVersion;
+  /** The game version to send with requests */
+  gameVersion?: number;
+  /**
+   * The binary version to send with requests. Defaults to 35 for 2.1. It has no default for 2.2, since it changes
+   * with each 2.2 update, so it must be set to the binary version of the 2.2 build the server expects.
+   */
+  binaryVersion?: number;
+  /** The secrets to send with requests */
+  secrets?: Partial<ServerSecrets>;
+  /** The XOR keys for encrypted values */
+  keys?: Partial<ServerKeys>;
+  /** The salts for checksums */
+  salts?: Partial<ServerSalts>;
+  /** The names of endpoints that differ from the official servers */
+  endpoints?: { [endpoint: string]: string };
+};
+
+/** @internal */
+const OFFICIAL_SERVER: ServerProfile = {
+  dbURL: 'http://www.boomlings.com/database',
+  version: '2.1',
+  gameVersion: 21,
+  binaryVersion: 35,
+  secrets: SECRETS,
+  keys: {
+    account: accountKey,
+    level: levelKey,
+    message: messageKey,
+    comment: commentKey,
+    like: likeKey,
+    upload: uploadKey,
+    userScore: userScoreKey
+  },
+  salts: {
+    comment: commentSalt,
+    like: likeSalt,
+    upload: uploadSalt,
+    userScore: userScoreSalt,
+    gjp2: gjp2Salt
+  },
+  endpoints: {}
+};
+
+/**
+ * The bundled server profiles
+ */
+export const SERVER_PRESETS: { [preset in ServerPreset]: ServerProfile } = {
+  official: OFFICIAL_SERVER,
+  // GMDPrivateServer mirrors the official protocol, but every server is hosted at its own URL
+  gmdPrivateServer: { ...OFFICIAL_SERVER, dbURL: undefined }
+};
+
+/**
+ * Creates a full server profile from the changes to a preset
+ * @param server The changes to the profile, or the name of the preset to use
+ * @param version The version of the protocol to use. Overrides the version in the profile
+ * @returns The server profile
+ * @internal
+ */
+export const resolveServer = (
+  server: ServerConfig | ServerPreset = {},
+  version?: ProtocolVersion
+): ServerProfile => {
+  if (typeof server === 'string') server = { preset: server };
+  const base = SERVER_PRESETS[server.preset || 'official'];
+  version = version || server.version;
+  const versionBase = version ? PROTOCOL_VERSIONS[version] : base;
+  return {
+    dbURL: server.dbURL || base.dbURL,
+    version: version || base.version,
+    gameVersion: server.gameVersion || versionBase.gameVersion,
+    binaryVersion: server.binaryVersion || versionBase.binaryVersion,
+    secrets: { ...base.secrets, ...server.secrets },
+    keys: { ...base.keys, ...server.keys },
+    salts: { ...base.salts, ...server.salts },
+    endpoints: { ...base.endpoints, ...server.endpoints }
+  };
+};
@@ -0,0 +1,311 @@
+/**
+ * Level settings (header) model
+ * @internal
+ * @packageDocumentation
+ */
+
+import { PropertyMap, HSV } from './object';
+
+/**
+ * A game mode a level can start in
+ */
+export type GameMode = 'cube' | 'ship' | 'ball' | 'ufo' | 'wave' | 'robot' | 'spider';
+
+/** @internal */
+const GAME_MODES: GameMode[] = ['cube', 'ship', 'ball', 'ufo', 'wave', 'robot', 'spider'];
+
+/**
+ * A speed a level can start at
+ */
+export type Speed = 0.5 | 1 | 2 | 3 | 4;
+
+/** @internal */
+const SPEEDS: Speed[] = [1, 0.5, 2, 3, 4];
+
+/**
+ * A color channel defined in a level's settings
+ */
+export class ColorChannel extends PropertyMap {
+  /**
+   * Creates a color channel
+   * @param rawData The raw color channel string to parse. If omitted, creates an empty channel
+   */
+  constructor(rawData = '') {
+    super(rawData, '_');
+  }
+
+  /** The ID of the color channel */
+  get id(): number {
+    return this.getTyped('6', 'number');
+  }
+  set id(v: number) {
+    this.setTyped('6', 'number', v);
+  }
+
+  /** The red value of the color, from 0 to 255 */
+  get r(): number {
+    return this.getTyped<number>('1', 'number') || 0;
+  }
+  set r(v: number) {
+    this.setTyped('1', 'number', v);
+  }
+
+  /** The green value of the color, from 0 to 255 */
+  get g(): number {
+    return this.getTyped<number>('2', 'number') || 0;
+  }
+  set g(v: number) {
+    this.setTyped('2', 'number', v);
+  }
+
+  /** The blue value of the color, from 0 to 255 */
+  get b(): number {
+    return this.getTyped<number>('3', 'number') || 0;
+  }
+  set b(v: number) {
+    this.setTyped('3', 'number', v);
+  }
+
+  /** The player color the channel uses. 0 = none, 1 = player 1, 2 = player 2 */
+  get playerColor(): 0 | 1 | 2 {
+    const raw = this.getTyped<number>('4', 'number');
+    return raw > 0 ? (raw as 1 | 2) : 0;
+  }
+  set playerColor(v: 0 | 1 | 2) {
+    this.setTyped('4', 'number', v || -1);
+  }
+
+  /** Whether the color uses additive blending */
+  get blending(): boolean {
+    return this.getTyped<boolean>('5', 'boolean') || false;
+  }
+  set blending(v: boolean) {
+    this.setTyped('5', 'boolean', v);
+  }
+
+  /** The opacity of the color, from 0 to 1 */
+  get opacity(): number {
+    const opacity = this.getTyped<number>('7', 'number');
+    return opacity === undefined ? 1 : opacity;
+  }
+  set opacity(v: number) {
+    this.setTyped('7', 'number', v);
+  }
+
+  /** The ID of the channel this channel copies its color from. Undefined if not copying */
+  get copiedColor(): number {
+    return this.getTyped<number>('9', 'number') || undefined;
+  }
+  set copiedColor(v: number) {
+    this.setTyped('9', 'number', v);
+  }
+
+  /** The HSV adjustment applied to the copied color. Undefined if not set */
+  get copiedHSV(): HSV {
+    return this.getTyped('10', 'hsv');
+  }
+  set copiedHSV(v: HSV) {
+    this.setTyped('10', 'hsv', v);
+  }
+
+  /** Whether the opacity is copied along with the copied color */
+  get copyOpacity(): boolean {
+    return this.getTyped<boolean>('17', 'boolean') || false;
+  }
+  set copyOpacity(v: boolean) {
+    this.setTyped('17', 'boolean', v);
+  }
+
+  /** The color in hexadecimal notation */
+  get hex(): string {
+    return '#' + [this.r, this.g, this.b].map(v => v.toString(16).padStart(2, '0')).join('');
+  }
+}
+
+/**
+ * The settings of a level, as stored in the header of the level string
+ */
+export class LevelSettings extends PropertyMap {
+  /** @internal */
+  private _colors: ColorChannel[];
+
+  /**
+   * Creates level settings
+   * @param rawData The raw level header to parse. If omitted, creates empty settings
+   */
+  constructor(rawData = '') {
+    super(rawData, ',');
+  }
+
+  /**
+   * Gets the keys of the settings present, in order
+   * @returns The keys of the settings (e.g. kA2, kS38)
+   */
+  keys(): string[] {
+    this.syncColors();
+    const keys: string[] = [];
+    this._props.forEach((_, key) => keys.push(key));
+    return keys;
+  }
+
+  get(key: string): string {
+    this.syncColors();
+    return super.get(key);
+  }
+
+  set(key: string, value: string): void {
+    if (key === 'kS38') this._colors = null;
+    super.set(key, value);
+  }
+
+  has(key: string): boolean {
+    this.syncColors();
+    return super.has(key);
+  }
+
+  toString(): string {
+    this.syncColors();
+    return super.toString();
+  }
+
+  /**
+   * Writes the parsed color channels back into the raw settings
+   * @internal
+   */
+  private syncColors(): void {
+    if (!this._colors) return;
+    const colors = this._colors;
+    this._colors = null;
+    this.set('kS38', colors.length ? colors.map(c => c.toString() + '|').join('') : undefined);
+    this._colors = colors;
+  }
+
+  /** The game mode the level starts in */
+  get gameMode(): GameMode {
+    return GAME_MODES[this.getTyped<number>('kA2', 'number') || 0];
+  }
+  set gameMode(v: GameMode) {
+    this.setTyped('kA2', 'number', GAME_MODES.indexOf(v));
+  }
+
+  /** Whether the level starts in mini mode */
+  get mini(): boolean {
+    return this.getTyped<boolean>('kA3', 'boolean') || false;
+  }
+  set mini(v: boolean) {
+    this.setTyped('kA3', 'boolean', v);
+  }
+
+  /** The speed the level starts at */
+  get speed(): Speed {
+    return SPEEDS[this.getTyped<number>('kA4', 'number') || 0];
+  }
+  set speed(v: Speed) {
+    this.setTyped('kA4', 'number', SPEEDS.indexOf(v));
+  }
+
+  /** Whether the level starts in dual mode */
+  get dual(): boolean {
+    return this.getTyped<boolean>('kA8', 'boolean') || false;
+  }
+  set dual(v: boolean) {
+    this.setTyped('kA8', 'boolean', v);
+  }
+
+  /** Whether the level supports two-player mode */
+  get twoPlayer(): boolean {
+    return this.getTyped<boolean>('kA10', 'boolean') || false;
+  }
+  set twoPlayer(v: boolean) {
+    this.setTyped('kA10', 'boolean', v);
+  }
+
+  /** Whether the level starts with flipped gravity */
+  get flipGravity(): boolean {
+    return this.getTyped<boolean>('kA11', 'boolean') || false;
+  }
+  set flipGravity(v: boolean) {
+    this.setTyped('kA11', 'boolean', v);
+  }
+
+  /** The ID of the font used by text objects in the level. 0 is the default font */
+  get font(): number {
+    return this.getTyped<number>('kA18', 'number') || 0;
+  }
+  set font(v: number) {
+    this.setTyped('kA18', 'number', v);
+  }
+
+  /** The ID of the level's background */
+  get background(): number {
+    return this.getTyped<number>('kA6', 'number') || 0;
+  }
+  set background(v: number) {
+    this.setTyped('kA6', 'number', v);
+  }
+
+  /** The ID of the level's ground */
+  get ground(): number {
+    return this.getTyped<number>('kA7', 'number') || 0;
+  }
+  set ground(v: number) {
+    this.setTyped('kA7', 'number', v);
+  }
+
+  /** The ID of the level's ground line */
+  get groundLine(): number {
+    return this.getTyped<number>('kA17', 'number') || 0;
+  }
+  set groundLine(v: number) {
+    this.setTyped('kA17', 'number', v);
+  }
+
+  /** The offset of the song in seconds */
+  get songOffset(): number {
+    return this.getTyped<number>('kA13', 'number') || 0;
+  }
+  set songOffset(v: number) {
+    this.setTyped('kA13', 'number', v);
+  }
+
+  /** Whether the song fades in */
+  get fadeIn(): boolean {
+    return this.getTyped<boolean>('kA15', 'boolean') || false;
+  }
+  set fadeIn(v: boolean) {
+    this.setTyped('kA15', 'boolean', v);
+  }
+
+  /** Whether the song fades out */
+  get fadeOut(): boolean {
+    return this.getTyped<boolean>('kA16', 'boolean') || false;
+  }
+  set fadeOut(v: boolean) {
+    this.setTyped('kA16', 'boolean', v);
+  }
+
+  /** The color channels defined in the level. Changes to these channels are written back automatically */
+  get colors(): ColorChannel[] {
+    if (!this._colors) {
+      const raw = super.get('kS38');
+      this._colors = raw
+        ? raw
+            .split('|')
+            .filter(str => str)
+            .map(str => new ColorChannel(str))
+        : [];
+    }
+    return this._colors;
+  }
+  set colors(v: ColorChannel[]) {
+    this._colors = v;
+  }
+}
+
+/**
+ * Converts a raw level header into level settings.
+ * @param data The header to parse
+ * @returns The parsed settings
+ * @internal
+ */
+export const parseLevelSettings = (data: string): LevelSettings => new LevelSettings(data);
@@ -0,0 +1,98 @@
+/**
+ * Transports for sending requests
+ * @internal
+ * @packageDocumentation
+ */
+
+/**
+ * A request to be sent by a transport
+ */
+export type TransportRequest = {
+  /** The full URL to send the request to */
+  url: string;
+  /** The method for the request */
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  /** The headers for the request */
+  headers: { [name: string]: string };
+  /** The form-encoded body of the request. Null if there is no body */
+  body: URLSearchParams;
+  /** A signal that is triggered when the request should be aborted, such as when it times out. May be undefined. */
+  signal?: AbortSignal;
+  /** The HTTP agent to send the request through, if any. Only supported in Node.js */
+  agent?: unknown;
+};
+
+/**
+ * Sends requests to the Geometry Dash servers. Replace this to use your own HTTP client or to fake
+ * responses in tests.
+ * @param req The request to send
+ * @returns The response from the server
+ */
+export type Transport = (req: TransportRequest) => Promise<Response>;
+
+/**
+ * Creates a transport that sends requests with the fetch API
+ * @param getFetch Gets the fetch implementation to use. Called for each request, so environments without fetch
+ *                 only fail once a request is sent
+ * @returns The transport
+ * @internal
+ */
+export const fetchTransport = (getFetch: () => typeof fetch): Transport => async ({
+  url,
+  method,
+  headers,
+  body,
+  signal,
+  agent
+}): Promise<Response> =>
+  getFetch()(url, {
+    method,
+    headers,
+    body,
+    signal,
+    referrerPolicy: 'no-referrer',
+    // node-fetch uses this to send requests through a proxy
+    ...(agent ? { agent } : {})
+  });
+
+/**
+ * Runs a task, aborting it if it takes too long
+ * @param timeout The maximum number of milliseconds the task may take. If 0, the task never times out
+ * @param signal A signal that aborts the task when triggered, if any
+ * @param task The task to run. It should stop when the signal it receives is triggered
+ * @returns The result of the task
+ * @async
+ * @internal
+ */
+export const withTimeout = <T>(
+  timeout: number,
+  signal: AbortSignal,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  if (!timeout) return task(signal);
+  // AbortController is missing in older environments, where the task is left running instead
+  const controller = typeof AbortController === 'undefined' ? null : new AbortController();
+  if (controller && signal) {
+    if (signal.aborted) controller.abort();
+    else signal.addEventListener('abort', () => controller.abort());
+  }
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    task(controller ? controller.signal : signal),
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        if (controller) controller.abort();
+        reject(new Error(`the request timed out after ${timeout}ms`));
+      }, timeout);
+    })
+  ]).then(
+    result => {
+      clearTimeout(timer);
+      return result;
+    },
+    err => {
+      clearTimeout(timer);
+      throw err;
+    }
+  );
+};